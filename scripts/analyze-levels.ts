@@ -0,0 +1,84 @@
+// Plays levels headlessly and prints win rates, so the campaign and the
+// procedural generator can be tuned with numbers instead of guesses.
+//
+//   npm run analyze                          every campaign level
+//   npm run analyze -- --levels 4-6          campaign levels, 1-based
+//   npm run analyze -- --endless 1-10        generated endless-mode levels
+//   npm run analyze -- --file my-level.json  a level (or list of levels) from the editor
+//   options: --runs 200 --bot targets|lookahead|longest|random --seed ANALYZE
+
+import { readFileSync } from 'node:fs';
+import { LevelSource, analyzeLevel } from '../src/game/analyzer';
+import { BOTS, BotName } from '../src/game/bots';
+import { generateEndlessLevel } from '../src/game/engine';
+import { LEVELS, parseLevel, parseLevels } from '../src/game/levels';
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) throw new Error(`Unexpected argument "${argv[i]}"`);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new Error(`Missing value for ${argv[i]}`);
+    args[argv[i].slice(2)] = value;
+    i++;
+  }
+  return args;
+};
+
+// "3" or "1-10" (1-based, inclusive) to 0-based level indices.
+const parseRange = (range: string, flag: string): number[] => {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(range);
+  if (!match) throw new Error(`${flag} must look like 3 or 1-10`);
+  const from = Number(match[1]);
+  const to = Number(match[2] ?? match[1]);
+  if (from < 1 || to < from) throw new Error(`${flag} range is empty`);
+  return Array.from({ length: to - from + 1 }, (_, i) => from - 1 + i);
+};
+
+const loadSources = (args: Record<string, string>): { label: string; level: LevelSource }[] => {
+  if (args.file) {
+    const json = JSON.parse(readFileSync(args.file, 'utf8'));
+    const levels = Array.isArray(json) ? parseLevels(json) : [parseLevel(json)];
+    return levels.map((level, i) => ({ label: level.name ?? `${args.file} #${i + 1}`, level }));
+  }
+
+  if (args.endless) {
+    return parseRange(args.endless, '--endless').map((index) => ({
+      label: `Endless ${index + 1}`,
+      level: (rng) => generateEndlessLevel(index, rng),
+    }));
+  }
+
+  const indices = parseRange(args.levels ?? `1-${LEVELS.length}`, '--levels');
+  if (indices[indices.length - 1] >= LEVELS.length) throw new Error(`The campaign has ${LEVELS.length} levels`);
+  return indices.map((index) => ({ label: `${index + 1}. ${LEVELS[index].name ?? '(campaign)'}`, level: LEVELS[index] }));
+};
+
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`.padStart(5);
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const runs = Number(args.runs ?? 200);
+  const bot = (args.bot ?? 'targets') as BotName;
+  const seed = args.seed ?? 'ANALYZE';
+  if (!Number.isInteger(runs) || runs < 1) throw new Error('--runs must be a positive integer');
+  if (!(bot in BOTS)) throw new Error(`--bot must be one of ${Object.keys(BOTS).join(', ')}`);
+
+  console.log(`${runs} runs per level, ${bot} bot, seed ${seed}\n`);
+  console.log(`${'LEVEL'.padEnd(28)} ${'WIN'.padStart(5)} ${'STUCK'.padStart(5)} ${'LEFT'.padStart(5)} ${'USED'.padStart(5)}  SCORE p25 / median / p75`);
+  loadSources(args).forEach(({ label, level }) => {
+    const report = analyzeLevel(level, { runs, bot, seed });
+    console.log(
+      `${label.slice(0, 28).padEnd(28)} ${pct(report.winRate)} ${pct(report.stuckRate)} ` +
+      `${report.avgMovesLeft.toFixed(1).padStart(5)} ${report.avgMovesUsed.toFixed(1).padStart(5)}  ` +
+      `${report.score.p25} / ${report.score.median} / ${report.score.p75}`,
+    );
+  });
+};
+
+try {
+  main();
+} catch (err) {
+  console.error((err as Error).message);
+  process.exit(1);
+}
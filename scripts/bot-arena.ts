@@ -0,0 +1,84 @@
+// Pits bots against each other: every bot plays the same seeds from the first
+// level until it loses (or wins the campaign), and the totals are compared.
+// Handy for balancing and as a regression check after rule changes.
+//
+//   npm run arena
+//   npm run arena -- --bots targets,lookahead --games 50 --mode endless --max-levels 20
+//   options: --seed ARENA
+
+import { BOTS, BotName, playLevel } from '../src/game/bots';
+import { GameState, createGame, nextLevel } from '../src/game/engine';
+import { createRng, hashSeed } from '../src/game/rng';
+
+interface GameResult {
+  won: boolean;
+  levelReached: number;
+  score: number;
+  movesUsed: number;
+}
+
+const FLAGS = ['bots', 'games', 'mode', 'max-levels', 'seed'];
+
+const USAGE = 'usage: npm run arena -- [--bots a,b] [--games N] [--mode campaign|endless] [--max-levels N] [--seed S]';
+
+const parseArgs = (argv: string[]) => {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) throw new Error(`Unexpected argument "${argv[i]}"`);
+    const flag = argv[i].slice(2);
+    if (!FLAGS.includes(flag)) throw new Error(`Unknown option ${argv[i]}`);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new Error(`Missing value for ${argv[i]}`);
+    args[flag] = value;
+    i++;
+  }
+  return args;
+};
+
+const playGame = (name: BotName, seed: string, mode: 'campaign' | 'endless', maxLevels: number): GameResult => {
+  const rng = createRng(hashSeed(`${seed}:${name}`));
+  let state: GameState = createGame(seed, mode);
+  let movesUsed = 0;
+  for (;;) {
+    const play = playLevel(state, BOTS[name], rng);
+    state = play.state;
+    movesUsed += play.movesUsed;
+    if (state.status !== 'levelup' || state.level + 1 >= maxLevels) break;
+    state = nextLevel(state);
+  }
+  return { won: state.status === 'won', levelReached: state.level + 1, score: state.score, movesUsed };
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+  const names = (args.bots ?? Object.keys(BOTS).join(',')).split(',') as BotName[];
+  const games = Number(args.games ?? 20);
+  const mode = (args.mode ?? 'campaign') as 'campaign' | 'endless';
+  const maxLevels = Number(args['max-levels'] ?? (mode === 'endless' ? 20 : Infinity));
+  const seed = args.seed ?? 'ARENA';
+  names.forEach((name) => {
+    if (!(name in BOTS)) throw new Error(`Unknown bot "${name}"; choose from ${Object.keys(BOTS).join(', ')}`);
+  });
+  if (!Number.isInteger(games) || games < 1) throw new Error('--games must be a positive integer');
+  if (mode !== 'campaign' && mode !== 'endless') throw new Error('--mode must be campaign or endless');
+
+  console.log(`${games} ${mode} games per bot, seed ${seed}\n`);
+  console.log(`${'BOT'.padEnd(10)} ${'WINS'.padStart(5)} ${'LEVEL'.padStart(6)} ${'SCORE'.padStart(7)} ${'MOVES'.padStart(6)}  TIME`);
+  names.forEach((name) => {
+    const started = Date.now();
+    const results = Array.from({ length: games }, (_, i) => playGame(name, `${seed}-${i}`, mode, maxLevels));
+    const average = (pick: (result: GameResult) => number) => results.reduce((total, r) => total + pick(r), 0) / games;
+    console.log(
+      `${name.padEnd(10)} ${String(results.filter((r) => r.won).length).padStart(5)} ${average((r) => r.levelReached).toFixed(1).padStart(6)} ` +
+      `${average((r) => r.score).toFixed(0).padStart(7)} ${average((r) => r.movesUsed).toFixed(1).padStart(6)}  ${((Date.now() - started) / 1000).toFixed(1)}s`,
+    );
+  });
+};
+
+try {
+  main();
+} catch (err) {
+  console.error((err as Error).message);
+  console.error(USAGE);
+  process.exit(1);
+}
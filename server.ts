@@ -0,0 +1,40 @@
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { openDatabase } from './server/db';
+import { createApiRouter } from './server/api';
+import { createRaceRooms } from './server/race';
+import { acceptWebSockets } from './server/websocket';
+import { RACE_PATH } from './src/game/race';
+
+const PORT = Number(process.env.PORT) || 3000;
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join('data', 'pop-match.db');
+
+async function startServer() {
+  const app = express();
+  const db = openDatabase(DATABASE_PATH);
+
+  app.use('/api', createApiRouter(db));
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  const server = app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Pop Match running on http://localhost:${PORT} (database: ${DATABASE_PATH})`);
+  });
+  acceptWebSockets(server, RACE_PATH, createRaceRooms().connect);
+}
+
+startServer();
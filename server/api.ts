@@ -0,0 +1,99 @@
+import express from 'express';
+import { ScoreDatabase } from './db';
+import { Replay, parseReplay } from '../src/game/replay';
+import { verifyLevelBest, verifyRun } from '../src/game/verify';
+
+const MAX_NAME_LENGTH = 24;
+const MAX_REPLAY_LENGTH = 512 * 1024;
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const parseName = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  return name.length > 0 && name.length <= MAX_NAME_LENGTH ? name : null;
+};
+
+const decodeReplay = (value: unknown): Replay | null => {
+  if (typeof value !== 'string' || value.length > MAX_REPLAY_LENGTH) return null;
+  try {
+    return parseReplay(value);
+  } catch {
+    return null;
+  }
+};
+
+const parseLimit = (value: unknown, fallback: number) => {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, 100) : fallback;
+};
+
+export const createApiRouter = (db: ScoreDatabase) => {
+  const router = express.Router();
+  router.use(express.json({ limit: '1mb' }));
+
+  router.post('/runs', (req, res) => {
+    const { player, seed, levelReached, score, movesUsed, replay } = req.body ?? {};
+    const name = parseName(player);
+    if (!name) return res.status(400).json({ error: 'player must be a non-empty name' });
+    if (typeof seed !== 'string' || !seed) return res.status(400).json({ error: 'seed is required' });
+    if (!isCount(levelReached) || !isCount(score) || !isCount(movesUsed)) {
+      return res.status(400).json({ error: 'levelReached, score and movesUsed must be non-negative integers' });
+    }
+    const decoded = decodeReplay(replay);
+    if (!decoded) return res.status(400).json({ error: 'replay must be an encoded replay string' });
+
+    // Scores are only accepted when re-simulating the replay reproduces them exactly.
+    const verification = verifyRun(decoded, { seed, levelReached, score, movesUsed });
+    if (!verification.ok) return res.status(422).json({ error: `Run rejected: ${verification.reason}` });
+    res.status(201).json(db.submitRun({ player: name, seed, levelReached, score, movesUsed, replay }));
+  });
+
+  router.get('/runs', (req, res) => {
+    res.json(db.topRuns(parseLimit(req.query.limit, 10)));
+  });
+
+  router.get('/runs/:id/replay', (req, res) => {
+    const replay = db.getReplay(Number(req.params.id));
+    if (!replay) return res.status(404).json({ error: 'No replay stored for this run' });
+    res.json({ replay });
+  });
+
+  router.post('/levels/:level/bests', (req, res) => {
+    const level = Number(req.params.level);
+    const { player, score, movesLeft, replay } = req.body ?? {};
+    const name = parseName(player);
+    if (!name) return res.status(400).json({ error: 'player must be a non-empty name' });
+    if (!isCount(level) || !isCount(score) || !isCount(movesLeft)) {
+      return res.status(400).json({ error: 'level, score and movesLeft must be non-negative integers' });
+    }
+    const decoded = decodeReplay(replay);
+    if (!decoded) return res.status(400).json({ error: 'replay must be an encoded replay string' });
+
+    const verification = verifyLevelBest(decoded, { level, score, movesLeft });
+    if (!verification.ok) return res.status(422).json({ error: `Level best rejected: ${verification.reason}` });
+    res.status(201).json(db.submitLevelBest({ player: name, level, score, movesLeft }));
+  });
+
+  // Dry run of the run checks without storing anything, for tournament tooling.
+  router.post('/verify', (req, res) => {
+    const { replay, seed, levelReached, score, movesUsed } = req.body ?? {};
+    const decoded = decodeReplay(replay);
+    if (!decoded) return res.status(400).json({ error: 'replay must be an encoded replay string' });
+    if (typeof seed !== 'string' || !isCount(levelReached) || !isCount(score) || !isCount(movesUsed)) {
+      return res.status(400).json({ error: 'seed, levelReached, score and movesUsed are required' });
+    }
+
+    const verification = verifyRun(decoded, { seed, levelReached, score, movesUsed });
+    if (!verification.ok) return res.json({ ok: false, reason: verification.reason });
+    res.json({ ok: true, levelReached, score, movesUsed });
+  });
+
+  router.get('/levels/:level/bests', (req, res) => {
+    const level = Number(req.params.level);
+    if (!isCount(level)) return res.status(400).json({ error: 'level must be a non-negative integer' });
+    res.json(db.topLevelBests(level, parseLimit(req.query.limit, 10)));
+  });
+
+  return router;
+};
@@ -0,0 +1,152 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export interface RunInput {
+  player: string;
+  seed: string;
+  levelReached: number;
+  score: number;
+  movesUsed: number;
+  replay: string;
+}
+
+export interface LevelBestInput {
+  player: string;
+  level: number;
+  score: number;
+  movesLeft: number;
+}
+
+export interface RunRow {
+  id: number;
+  player: string;
+  seed: string;
+  levelReached: number;
+  score: number;
+  movesUsed: number;
+  createdAt: string;
+}
+
+export interface LevelBestRow {
+  player: string;
+  level: number;
+  score: number;
+  movesLeft: number;
+  updatedAt: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS players (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    seed TEXT NOT NULL,
+    level_reached INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    moves_used INTEGER NOT NULL,
+    replay TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE INDEX IF NOT EXISTS runs_score ON runs(score DESC);
+
+  CREATE TABLE IF NOT EXISTS level_bests (
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    level INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    moves_left INTEGER NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (player_id, level)
+  );
+`;
+
+export const openDatabase = (file: string) => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const upsertPlayer = db.prepare(`INSERT INTO players (name) VALUES (?) ON CONFLICT(name) DO NOTHING`);
+  const selectPlayer = db.prepare(`SELECT id FROM players WHERE name = ?`);
+  const insertRun = db.prepare(`
+    INSERT INTO runs (player_id, seed, level_reached, score, moves_used, replay)
+    VALUES (@playerId, @seed, @levelReached, @score, @movesUsed, @replay)
+  `);
+  const runRank = db.prepare(`SELECT COUNT(*) + 1 AS rank FROM runs WHERE score > ?`);
+  const runCount = db.prepare(`SELECT COUNT(*) AS total FROM runs`);
+  const topRuns = db.prepare(`
+    SELECT runs.id, players.name AS player, seed, level_reached AS levelReached, score,
+           moves_used AS movesUsed, runs.created_at AS createdAt
+    FROM runs JOIN players ON players.id = runs.player_id
+    ORDER BY score DESC, runs.id ASC
+    LIMIT ?
+  `);
+  const selectReplay = db.prepare(`SELECT replay FROM runs WHERE id = ?`);
+  // Keeps the higher score; moves left breaks ties.
+  const upsertLevelBest = db.prepare(`
+    INSERT INTO level_bests (player_id, level, score, moves_left)
+    VALUES (@playerId, @level, @score, @movesLeft)
+    ON CONFLICT(player_id, level) DO UPDATE SET
+      score = excluded.score,
+      moves_left = excluded.moves_left,
+      updated_at = datetime('now')
+    WHERE excluded.score > level_bests.score
+       OR (excluded.score = level_bests.score AND excluded.moves_left > level_bests.moves_left)
+  `);
+  const selectLevelBest = db.prepare(`SELECT score, moves_left AS movesLeft FROM level_bests WHERE player_id = ? AND level = ?`);
+  const levelRank = db.prepare(`
+    SELECT COUNT(*) + 1 AS rank FROM level_bests
+    WHERE level = @level AND (score > @score OR (score = @score AND moves_left > @movesLeft))
+  `);
+  const levelCount = db.prepare(`SELECT COUNT(*) AS total FROM level_bests WHERE level = ?`);
+  const topLevelBests = db.prepare(`
+    SELECT players.name AS player, level, score, moves_left AS movesLeft, updated_at AS updatedAt
+    FROM level_bests JOIN players ON players.id = level_bests.player_id
+    WHERE level = ?
+    ORDER BY score DESC, moves_left DESC
+    LIMIT ?
+  `);
+
+  const playerId = (name: string): number => {
+    upsertPlayer.run(name);
+    return (selectPlayer.get(name) as { id: number }).id;
+  };
+
+  return {
+    close: () => db.close(),
+
+    submitRun: db.transaction((run: RunInput) => {
+      const { lastInsertRowid } = insertRun.run({ ...run, playerId: playerId(run.player) });
+      return {
+        id: Number(lastInsertRowid),
+        rank: (runRank.get(run.score) as { rank: number }).rank,
+        total: (runCount.get() as { total: number }).total,
+      };
+    }),
+
+    topRuns: (limit: number) => topRuns.all(limit) as RunRow[],
+
+    getReplay: (runId: number) => (selectReplay.get(runId) as { replay: string | null } | undefined)?.replay ?? null,
+
+    submitLevelBest: db.transaction((best: LevelBestInput) => {
+      const id = playerId(best.player);
+      upsertLevelBest.run({ ...best, playerId: id });
+      const stored = selectLevelBest.get(id, best.level) as { score: number; movesLeft: number };
+      return {
+        best: stored,
+        rank: (levelRank.get({ level: best.level, ...stored }) as { rank: number }).rank,
+        total: (levelCount.get(best.level) as { total: number }).total,
+      };
+    }),
+
+    topLevelBests: (level: number, limit: number) => topLevelBests.all(level, limit) as LevelBestRow[],
+  };
+};
+
+export type ScoreDatabase = ReturnType<typeof openDatabase>;
@@ -0,0 +1,273 @@
+// Rooms for the multiplayer race (the protocol is in src/game/race.ts). Rooms
+// only live in memory, so restarting the server ends every race. Each racer's
+// game is simulated here from the chains they send, which is where the
+// progress everyone sees comes from.
+
+import { randomBytes } from 'crypto';
+import { GameState, createGame, isShortChain, isValidChain, targetsLeft } from '../src/game/engine';
+import { decodeChain, replayChain } from '../src/game/replay';
+import { randomSeed } from '../src/game/rng';
+import {
+  ClientMessage,
+  MAX_RACER_NAME_LENGTH,
+  RACE_COUNTDOWN_MS,
+  RACE_MAX_PLAYERS,
+  RACE_MIN_PLAYERS,
+  RACE_RECONNECT_MS,
+  ROOM_CODE_LENGTH,
+  RacerView,
+  RoomPhase,
+  RoomView,
+  ServerMessage,
+  isRoomCode,
+  normalizeRoomCode,
+} from '../src/game/race';
+import { WebSocketConnection } from './websocket';
+
+interface Racer {
+  id: string;
+  token: string;
+  name: string;
+  ready: boolean;
+  connection: WebSocketConnection | null;
+  game: GameState;
+  chains: string[];
+  finishTime: number | null;
+  // Pending removal while the racer is disconnected.
+  dropTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Room {
+  code: string;
+  phase: RoomPhase;
+  seed: string;
+  targetsTotal: number;
+  racers: Racer[];
+  startsAt: number;
+  startedAt: number;
+  countdownTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const isOptionalString = (value: unknown): value is string | undefined => value === undefined || typeof value === 'string';
+
+const parseMessage = (text: string): ClientMessage | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null;
+  const { type, name, room, token, ready, chain } = parsed as Record<string, unknown>;
+  switch (type) {
+    case 'join':
+      return typeof name === 'string' && isOptionalString(room) && isOptionalString(token) ? { type, name, room, token } : null;
+    case 'ready':
+      return typeof ready === 'boolean' ? { type, ready } : null;
+    case 'move':
+      return typeof chain === 'string' ? { type, chain } : null;
+    case 'rematch':
+    case 'leave':
+      return { type };
+    default:
+      return null;
+  }
+};
+
+const send = (connection: WebSocketConnection | null, message: ServerMessage) => connection?.send(JSON.stringify(message));
+
+const racerView = (racer: Racer): RacerView => ({
+  id: racer.id,
+  name: racer.name,
+  ready: racer.ready,
+  connected: racer.connection !== null,
+  score: racer.game.score,
+  targetsLeft: targetsLeft(racer.game.targets),
+  movesLeft: racer.game.moves,
+  status: racer.game.status,
+  finishTime: racer.finishTime,
+});
+
+const roomView = (room: Room): RoomView => ({
+  code: room.code,
+  phase: room.phase,
+  seed: room.seed,
+  targetsTotal: room.targetsTotal,
+  countdown: room.phase === 'countdown' ? Math.max(0, room.startsAt - Date.now()) : 0,
+  racers: room.racers.map(racerView),
+});
+
+export const createRaceRooms = () => {
+  const rooms = new Map<string, Room>();
+
+  const broadcast = (room: Room) => {
+    const message: ServerMessage = { type: 'room', room: roomView(room) };
+    room.racers.forEach((racer) => send(racer.connection, message));
+  };
+
+  // Every new race gets a fresh seed, so a rematch is a new board.
+  const resetRace = (room: Room) => {
+    room.seed = randomSeed();
+    room.racers.forEach((racer) => {
+      racer.game = createGame(room.seed, 'race');
+      racer.chains = [];
+      racer.finishTime = null;
+      racer.ready = false;
+    });
+    room.targetsTotal = targetsLeft(createGame(room.seed, 'race').targets);
+  };
+
+  const cancelCountdown = (room: Room) => {
+    if (room.countdownTimer) clearTimeout(room.countdownTimer);
+    room.countdownTimer = null;
+  };
+
+  // The countdown runs while enough racers are here and all of them are ready.
+  const updateCountdown = (room: Room) => {
+    if (room.phase !== 'lobby' && room.phase !== 'countdown') return;
+    const allReady = room.racers.length >= RACE_MIN_PLAYERS && room.racers.every((racer) => racer.ready && racer.connection);
+    if (allReady && room.phase === 'lobby') {
+      room.phase = 'countdown';
+      room.startsAt = Date.now() + RACE_COUNTDOWN_MS;
+      room.countdownTimer = setTimeout(() => {
+        room.countdownTimer = null;
+        room.phase = 'racing';
+        room.startedAt = Date.now();
+        broadcast(room);
+      }, RACE_COUNTDOWN_MS);
+    } else if (!allReady && room.phase === 'countdown') {
+      cancelCountdown(room);
+      room.phase = 'lobby';
+    }
+  };
+
+  // The race ends as soon as someone clears the level, or once nobody can move.
+  const updateFinished = (room: Room) => {
+    if (room.phase !== 'racing') return;
+    const cleared = room.racers.some((racer) => racer.game.status === 'won');
+    const playing = room.racers.some((racer) => racer.game.status === 'playing');
+    if (cleared || !playing) room.phase = 'finished';
+  };
+
+  const removeRacer = (room: Room, racer: Racer) => {
+    if (racer.dropTimer) clearTimeout(racer.dropTimer);
+    room.racers = room.racers.filter((other) => other !== racer);
+    if (room.racers.length === 0) {
+      cancelCountdown(room);
+      rooms.delete(room.code);
+      return;
+    }
+    updateCountdown(room);
+    updateFinished(room);
+    broadcast(room);
+  };
+
+  const createRoom = (): Room => {
+    let code = randomSeed(ROOM_CODE_LENGTH);
+    while (rooms.has(code)) code = randomSeed(ROOM_CODE_LENGTH);
+    const room: Room = { code, phase: 'lobby', seed: '', targetsTotal: 0, racers: [], startsAt: 0, startedAt: 0, countdownTimer: null };
+    resetRace(room);
+    rooms.set(code, room);
+    return room;
+  };
+
+  const connect = (connection: WebSocketConnection) => {
+    let current: { room: Room; racer: Racer } | null = null;
+    const fail = (message: string) => send(connection, { type: 'error', message });
+
+    const join = ({ name, room: code, token }: Extract<ClientMessage, { type: 'join' }>) => {
+      if (current) return fail('Already in a room');
+      const room = code === undefined ? createRoom() : rooms.get(normalizeRoomCode(code));
+      if (!room) return fail(isRoomCode(normalizeRoomCode(code ?? '')) ? 'No room with that code' : 'Room codes are four letters or digits');
+
+      // A racer coming back takes their old place, mid-race included.
+      const returning = token ? room.racers.find((racer) => racer.token === token) : undefined;
+      if (returning) {
+        // Swap the connection first, so closing the old one doesn't count as a drop.
+        const previous = returning.connection;
+        returning.connection = connection;
+        previous?.close();
+        if (returning.dropTimer) clearTimeout(returning.dropTimer);
+        returning.dropTimer = null;
+        current = { room, racer: returning };
+      } else {
+        if (room.phase !== 'lobby') return fail('That race has already started');
+        if (room.racers.length >= RACE_MAX_PLAYERS) return fail(`Rooms hold up to ${RACE_MAX_PLAYERS} racers`);
+        const racer: Racer = {
+          id: randomBytes(4).toString('hex'),
+          token: randomBytes(16).toString('hex'),
+          name: name.trim().slice(0, MAX_RACER_NAME_LENGTH) || `Racer ${room.racers.length + 1}`,
+          ready: false,
+          connection,
+          game: createGame(room.seed, 'race'),
+          chains: [],
+          finishTime: null,
+          dropTimer: null,
+        };
+        room.racers.push(racer);
+        current = { room, racer };
+        updateCountdown(room);
+      }
+      const { racer } = current;
+      send(connection, { type: 'welcome', room: room.code, you: racer.id, token: racer.token, chains: racer.chains });
+      broadcast(room);
+    };
+
+    const move = (room: Room, racer: Racer, encoded: string) => {
+      if (room.phase !== 'racing' || racer.game.status !== 'playing') return fail('The race is not running');
+      let chain;
+      try {
+        chain = decodeChain(encoded);
+      } catch {
+        return fail('Invalid chain');
+      }
+      if (!isShortChain(racer.game, chain) && !isValidChain(racer.game, chain)) return fail('Illegal chain');
+      racer.game = replayChain(racer.game, chain).state;
+      racer.chains.push(encoded);
+      if (racer.game.status === 'won') racer.finishTime = Date.now() - room.startedAt;
+      updateFinished(room);
+      broadcast(room);
+    };
+
+    connection.onMessage((text) => {
+      const message = parseMessage(text);
+      if (!message) return fail('Unknown message');
+      if (message.type === 'join') return join(message);
+      if (!current) return fail('Join a room first');
+      const { room, racer } = current;
+      switch (message.type) {
+        case 'ready':
+          if (room.phase !== 'lobby' && room.phase !== 'countdown') return;
+          racer.ready = message.ready;
+          updateCountdown(room);
+          broadcast(room);
+          break;
+        case 'move':
+          move(room, racer, message.chain);
+          break;
+        case 'rematch':
+          if (room.phase !== 'finished') return;
+          room.phase = 'lobby';
+          resetRace(room);
+          broadcast(room);
+          break;
+        case 'leave':
+          current = null;
+          removeRacer(room, racer);
+          break;
+      }
+    });
+
+    // A dropped racer keeps their place for a while; the countdown can't run without them.
+    connection.onClose(() => {
+      if (!current || current.racer.connection !== connection) return;
+      const { room, racer } = current;
+      racer.connection = null;
+      racer.dropTimer = setTimeout(() => removeRacer(room, racer), RACE_RECONNECT_MS);
+      updateCountdown(room);
+      broadcast(room);
+    });
+  };
+
+  return { connect };
+};
@@ -0,0 +1,151 @@
+// Just enough of the WebSocket protocol (RFC 6455) for the race rooms: the
+// opening handshake, masked text frames from browsers, pings and closing.
+// Express has no WebSocket support of its own, so this listens for the HTTP
+// server's upgrade requests on one path and leaves every other path alone.
+
+import { createHash } from 'crypto';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+export interface WebSocketConnection {
+  send: (text: string) => void;
+  close: () => void;
+  onMessage: (handler: (text: string) => void) => void;
+  onClose: (handler: () => void) => void;
+}
+
+// Server frames are never fragmented or masked.
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 0x10000 ? 4 : 10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const wrapSocket = (socket: Duplex): WebSocketConnection => {
+  const messageHandlers: ((text: string) => void)[] = [];
+  const closeHandlers: (() => void)[] = [];
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const finish = (frame?: Buffer) => {
+    if (closed) return;
+    closed = true;
+    if (frame) socket.end(frame);
+    else socket.destroy();
+    closeHandlers.forEach((handler) => handler());
+  };
+
+  // Reads one frame off the buffer; false once there's no complete frame left.
+  const readFrame = (): boolean => {
+    if (buffered.length < 2) return false;
+    const fin = (buffered[0] & 0x80) !== 0;
+    const opcode = buffered[0] & 0x0f;
+    const masked = (buffered[1] & 0x80) !== 0;
+    let length = buffered[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffered.length < 4) return false;
+      length = buffered.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffered.length < 10) return false;
+      const longLength = buffered.readBigUInt64BE(2);
+      length = longLength > BigInt(MAX_MESSAGE_BYTES) ? Infinity : Number(longLength);
+      offset = 10;
+    }
+    // Browsers mask every frame; anything else isn't a browser talking.
+    if (!masked || length > MAX_MESSAGE_BYTES) {
+      finish();
+      return false;
+    }
+    if (buffered.length < offset + 4 + length) return false;
+    const mask = buffered.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    buffered = buffered.subarray(offset + 4 + length);
+
+    switch (opcode) {
+      case OPCODE.text:
+      case OPCODE.continuation: {
+        fragments.push(payload);
+        if (fragments.reduce((total, part) => total + part.length, 0) > MAX_MESSAGE_BYTES) {
+          finish();
+          return false;
+        }
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          messageHandlers.forEach((handler) => handler(text));
+        }
+        return true;
+      }
+      case OPCODE.ping:
+        socket.write(encodeFrame(OPCODE.pong, payload));
+        return true;
+      case OPCODE.pong:
+        return true;
+      case OPCODE.close:
+        finish(encodeFrame(OPCODE.close, Buffer.alloc(0)));
+        return false;
+      default:
+        // Binary frames aren't part of the race protocol.
+        finish();
+        return false;
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    while (!closed && readFrame());
+  });
+  // HTTP server sockets allow half-open connections, so a client going away may only end its side.
+  socket.on('end', () => finish());
+  socket.on('close', () => finish());
+  socket.on('error', () => finish());
+
+  return {
+    send: (text) => {
+      if (!closed) socket.write(encodeFrame(OPCODE.text, Buffer.from(text, 'utf8')));
+    },
+    close: () => finish(encodeFrame(OPCODE.close, Buffer.alloc(0))),
+    onMessage: (handler) => messageHandlers.push(handler),
+    onClose: (handler) => closeHandlers.push(handler),
+  };
+};
+
+export const acceptWebSockets = (server: Server, path: string, onConnection: (connection: WebSocketConnection) => void) => {
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== path) return;
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n'));
+    onConnection(wrapSocket(socket));
+  });
+};
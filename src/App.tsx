@@ -1,108 +1,113 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-
-// --- AUDIO SYSTEM ---
-let audioCtx: AudioContext | null = null;
-let isMuted = false;
-
-const initAudio = () => {
-  if (!audioCtx) {
-    audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  }
-  if (audioCtx.state === 'suspended') {
-    audioCtx.resume();
-  }
-};
-
-const toggleMute = () => {
-  isMuted = !isMuted;
-  return isMuted;
-};
-
-const playTone = (freq: number, type: OscillatorType, duration: number, startTimeOffset: number = 0) => {
-  if (!audioCtx || isMuted) return;
-  const startTime = audioCtx.currentTime + startTimeOffset;
-  const osc = audioCtx.createOscillator();
-  const gain = audioCtx.createGain();
-  
-  osc.type = type;
-  osc.frequency.setValueAtTime(freq, startTime);
-  
-  gain.gain.setValueAtTime(0.1, startTime);
-  gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
-  
-  osc.connect(gain);
-  gain.connect(audioCtx.destination);
-  
-  osc.start(startTime);
-  osc.stop(startTime + duration);
-};
-
-const playPop = (count: number) => {
-  const baseFreq = 300 + Math.min(count * 40, 400);
-  playTone(baseFreq, 'sine', 0.15);
-  playTone(baseFreq * 1.5, 'sine', 0.15, 0.05);
-};
-
-const playBonus = () => {
-  // Softer, smoother bonus sound using sine waves
-  playTone(440, 'sine', 0.2, 0);
-  playTone(554, 'sine', 0.2, 0.05);
-  playTone(659, 'sine', 0.2, 0.1);
-  playTone(880, 'sine', 0.4, 0.15);
-};
-
-const playClick = () => {
-  playTone(600, 'sine', 0.05);
-};
-
-const playLevelUp = () => {
-  playTone(523.25, 'triangle', 0.15, 0);
-  playTone(659.25, 'triangle', 0.15, 0.15);
-  playTone(783.99, 'triangle', 0.15, 0.3);
-  playTone(1046.50, 'triangle', 0.4, 0.45);
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
+import {
+  BallColor,
+  Cell,
+  DEFAULT_RULES,
+  GameEvent,
+  GameState,
+  Grid,
+  LevelGoal,
+  canConnect,
+  commitChain,
+  createGame,
+  createLevelGame,
+  createVersusGame,
+  endSession,
+  getChainColor,
+  hasMoveLimit,
+  isAdjacent,
+  isFixed,
+  isGoalMet,
+  isSelectable,
+  isShortChain,
+  isTargetRace,
+  nextLevel,
+  rateLevel,
+  releaseShortChain,
+  targetsLeft,
+  tickClock,
+  tryExtendChain,
+  versusWinners,
+} from './game/engine';
+import { LEVELS, LevelConfig, decodeLevel } from './game/levels';
+import { DailyResult, createDailyGame, dailyDate, dailySeed, dailySeedDate, formatShareCard, longestChain, summarizeDaily } from './game/daily';
+import { RoomView, rankRacers } from './game/race';
+import { BotName } from './game/bots';
+import { Rng, createRng, hashSeed, normalizeSeed, randomSeed } from './game/rng';
+import {
+  Replay,
+  ReplayTimeline,
+  buildTimeline,
+  countReplayMoves,
+  encodeChain,
+  parseReplay,
+  recordLevel,
+  recordMove,
+  serializeReplay,
+  startReplay,
+  undoMove,
+} from './game/replay';
+import { InputAction, KEY_ACTIONS, cursorStart, stepCursor, watchGamepads } from './input';
+import LevelEditor, { blankLevel, withLayout } from './components/LevelEditor';
+import LevelMap from './components/LevelMap';
+import ColorGlyph from './components/ColorGlyph';
+import PowerupIcon from './components/PowerupIcon';
+import ReplayControls from './components/ReplayControls';
+import ScoreSubmission, { SubmissionState } from './components/ScoreSubmission';
+import StarRating from './components/StarRating';
+import SettingsPanel from './components/SettingsPanel';
+import VersusSetup from './components/VersusSetup';
+import RaceLobby from './components/RaceLobby';
+import RaceStandings from './components/RaceStandings';
+import { loadPlayerName, savePlayerName, submitLevelBest, submitRun } from './api';
+import { RaceConnection, RaceStatus, connectRace, loadRaceSession, rebuildRace } from './race';
+import { searchBotMove, searchHint } from './search';
+import { LoadedGame, clearSave, loadSave, writeSave } from './save';
+import {
+  ScoreMode,
+  dailyStreak,
+  hasPlayedDaily,
+  isScoreMode,
+  loadDaily,
+  loadModeBests,
+  loadProgress,
+  recordDailyResult,
+  recordDailyStart,
+  recordLevelResult,
+  recordModeScore,
+} from './progress';
+import {
+  initAudio,
+  playBonus,
+  playClick,
+  playGameOver,
+  playLevelUp,
+  playPop,
+  playRainbow,
+  playSelect,
+  playWin,
+  setAudioVolumes,
+  setMusicIntensity,
+  startMusic,
+  stopMusic,
+} from './audio';
+import { PLAYER_COLORS, colorClasses } from './theme';
+import { Settings, loadSettings, saveSettings, systemPrefersReducedMotion, watchReducedMotion } from './settings';
+import { describeCell, describeChain, describeMove, describeOutcome } from './announce';
+
+// --- HAPTICS ---
+let hapticsEnabled = true;
+
+const applyFeedbackSettings = (settings: Settings) => {
+  setAudioVolumes(settings.masterVolume, settings.sfxVolume, settings.musicVolume, settings.muted);
+  hapticsEnabled = settings.haptics;
 };
 
-const playGameOver = () => {
-  playTone(300, 'sawtooth', 0.3, 0);
-  playTone(280, 'sawtooth', 0.3, 0.3);
-  playTone(260, 'sawtooth', 0.3, 0.6);
-  playTone(200, 'sawtooth', 0.6, 0.9);
+const vibrate = (pattern: number | number[]) => {
+  if (hapticsEnabled && typeof navigator !== 'undefined' && navigator.vibrate) navigator.vibrate(pattern);
 };
 
-const playWin = () => {
-  playTone(523.25, 'square', 0.2, 0);
-  playTone(523.25, 'square', 0.2, 0.2);
-  playTone(523.25, 'square', 0.2, 0.4);
-  playTone(659.25, 'square', 0.4, 0.6);
-  playTone(783.99, 'square', 0.4, 1.0);
-};
-
-const playSelect = (index: number) => {
-  if (!audioCtx) return;
-  // Pentatonic scale for selection sounds
-  const scale = [261.63, 293.66, 329.63, 392.00, 440.00];
-  const freq = scale[index % scale.length] * Math.pow(2, Math.floor(index / scale.length));
-  playTone(freq, 'sine', 0.1);
-};
-
-const playRainbow = () => {
-  // Softer, shimmering rainbow sound
-  for (let i = 0; i < 8; i++) {
-    playTone(523.25 * Math.pow(1.1, i), 'sine', 0.2, i * 0.04);
-  }
-};
-// --- END AUDIO SYSTEM ---
-
-type BallColor = 'red' | 'blue' | 'yellow' | 'green' | 'purple' | 'rainbow' | 'special';
-type PowerupType = 'moves' | 'multiplier' | 'bomb';
-
-interface Ball {
-  id: string;
-  color: BallColor;
-  powerup?: PowerupType;
-}
-
 interface Effect {
   id: string;
   x: number;
@@ -114,58 +119,6 @@ interface Effect {
   scale: number;
 }
 
-interface LevelConfig {
-  moves: number;
-  targets: Partial<Record<Exclude<BallColor, 'rainbow' | 'special'>, number>>;
-}
-
-const ROWS = 8;
-const COLS = 5;
-const MIN_MATCH = 3;
-
-const LEVELS: LevelConfig[] = [
-  { moves: 20, targets: { yellow: 10, red: 10 } },
-  { moves: 18, targets: { yellow: 15, red: 10, blue: 5 } },
-  { moves: 15, targets: { yellow: 20, red: 15, blue: 10, green: 5 } },
-  { moves: 15, targets: { yellow: 25, red: 20, blue: 15, green: 10, purple: 5 } },
-  { moves: 12, targets: { yellow: 30, red: 25, blue: 20, green: 15, purple: 10 } },
-];
-
-const generateLevelConfig = (levelIndex: number): LevelConfig => {
-  if (levelIndex < LEVELS.length) {
-    return LEVELS[levelIndex];
-  }
-  
-  const baseTargets = 20 + Math.floor((levelIndex - LEVELS.length + 1) * 5);
-  const numColors = Math.min(5, 3 + Math.floor(levelIndex / 3));
-  
-  const colors: (Exclude<BallColor, 'rainbow' | 'special'>)[] = ['red', 'blue', 'yellow', 'green', 'purple'];
-  const shuffledColors = [...colors].sort(() => Math.random() - 0.5).slice(0, numColors);
-  
-  const targets: Partial<Record<Exclude<BallColor, 'rainbow' | 'special'>, number>> = {};
-  
-  let totalTargets = 0;
-  shuffledColors.forEach((color) => {
-    const count = Math.floor(baseTargets / numColors) + Math.floor(Math.random() * 5);
-    targets[color] = count;
-    totalTargets += count;
-  });
-
-  const moves = Math.max(12, Math.floor(totalTargets / 3) + 2);
-
-  return { moves, targets };
-};
-
-const COLOR_CLASSES: Record<BallColor, string> = {
-  red: 'bg-[#ff3366]',
-  blue: 'bg-[#33ccff]',
-  yellow: 'bg-[#ffcc00]',
-  green: 'bg-[#33ff33]',
-  purple: 'bg-[#cc33ff]',
-  rainbow: 'bg-gradient-to-tr from-red-500 via-green-500 to-blue-500',
-  special: 'bg-gradient-to-b from-yellow-200 via-yellow-400 to-yellow-600 border-yellow-700',
-};
-
 const EFFECT_COLORS: Record<BallColor, string> = {
   red: '#ff3366',
   blue: '#33ccff',
@@ -174,6 +127,28 @@ const EFFECT_COLORS: Record<BallColor, string> = {
   purple: '#cc33ff',
   rainbow: '#ffffff',
   special: '#ffcc00',
+  item: '#d97706',
+};
+
+// Odd rows of a hex board sit half a cell (plus half the grid gap) to the right.
+const HEX_ROW_SHIFT = 'translate-x-[calc(50%+0.125rem)] sm:translate-x-[calc(50%+0.25rem)]';
+
+const MODE_LABELS: Record<ScoreMode, string> = {
+  endless: 'Endless',
+  timeAttack: 'Time Attack',
+  zen: 'Zen',
+};
+
+const SCORE_MODE_BUTTONS: { mode: ScoreMode; className: string }[] = [
+  { mode: 'endless', className: 'bg-[#cc33ff] text-white hover:bg-[#d966ff]' },
+  { mode: 'timeAttack', className: 'bg-[#ff3366] text-white hover:bg-[#ff6688]' },
+  { mode: 'zen', className: 'bg-[#33ccff] text-black hover:bg-[#66d9ff]' },
+];
+
+const GOAL_LABELS: Record<LevelGoal['type'], string> = {
+  score: 'PTS',
+  clearIce: 'ICE',
+  dropItems: 'DROP',
 };
 
 const COMIC_WORDS = ['POP!', 'ZAP!', 'BAM!', 'WHAM!', 'SNAP!', 'PLOP!', 'Biff!', 'Clonk!', 'Thwack!', 'SPLAT!', 'CRACK!', 'FIZZ!', 'ZIP!', 'BOING!', 'KAPOW!', 'WHIZZ!', 'POOF!', 'BOP!', 'DING!', 'PING!'];
@@ -189,50 +164,156 @@ const BG_COLORS = [
   '#cc33ff', // Level 6 (Purple)
 ];
 
-const spawnPowerup = (): PowerupType | undefined => {
-  if (Math.random() < 0.12) { // 12% chance for more frequent bonuses
-    const r = Math.random();
-    if (r < 0.33) return 'moves';
-    if (r < 0.66) return 'multiplier';
-    return 'bomb';
+// A shared link like ?seed=ABC123 replays the exact same boards.
+const getInitialSeed = () => {
+  const seed = new URLSearchParams(window.location.search).get('seed');
+  return seed && seed.trim() ? normalizeSeed(seed) : randomSeed();
+};
+
+// ...and ?replay=<encoded session> opens straight into the replay viewer.
+const getInitialReplay = (): ReplayTimeline | null => {
+  const encoded = new URLSearchParams(window.location.search).get('replay');
+  if (!encoded) return null;
+  try {
+    return buildTimeline(parseReplay(encoded));
+  } catch (err) {
+    console.warn('Ignoring replay from URL:', err);
+    return null;
   }
-  return undefined;
 };
 
-const generateGrid = (rows: number, cols: number): (Ball | null)[][] => {
-  const grid: (Ball | null)[][] = [];
-  const colors: BallColor[] = ['red', 'blue', 'yellow', 'green', 'purple'];
-  for (let r = 0; r < rows; r++) {
-    const row: (Ball | null)[] = [];
-    for (let c = 0; c < cols; c++) {
-      row.push({
-        id: `${r}-${c}-${Math.random()}`,
-        color: colors[Math.floor(Math.random() * colors.length)],
-        powerup: spawnPowerup(),
-      });
-    }
-    grid.push(row);
+// ...and ?level=<encoded level> opens a shared level in the editor.
+const getInitialLevel = (): LevelConfig | null => {
+  const encoded = new URLSearchParams(window.location.search).get('level');
+  if (!encoded) return null;
+  try {
+    return withLayout(decodeLevel(encoded));
+  } catch (err) {
+    console.warn('Ignoring level from URL:', err);
+    return null;
   }
-  return grid;
 };
 
+const REPLAY_STEP_MS = 700;
+// How often the time-attack clock is advanced; it always counts real elapsed time.
+const CLOCK_TICK_MS = 250;
+const CLOCK_WARNING_MS = 10_000;
+
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+// Each cascade after a move gets this long on screen before the next board shows.
+const CASCADE_STEP_MS = 500;
+// A free hint shows after this long without a move; the hint button has a few uses per level.
+const HINT_IDLE_MS = 8000;
+const HINTS_PER_LEVEL = 3;
+const UNDOS_PER_LEVEL = 3;
+// Autoplay draws the bot's chain one cell at a time, then commits it like a released pointer.
+const AUTOPLAY_BOT: BotName = 'lookahead';
+const AUTOPLAY_THINK_MS = 600;
+const AUTOPLAY_STEP_MS = 150;
+
 export default function App() {
-  const [level, setLevel] = useState(0);
-  const [grid, setGrid] = useState<(Ball | null)[][]>(() => generateGrid(ROWS, COLS));
-  const [selection, setSelection] = useState<{ r: number; c: number }[]>([]);
+  const [replayTimeline, setReplayTimeline] = useState<ReplayTimeline | null>(getInitialReplay);
+  const [game, setGame] = useState<GameState>(() => replayTimeline?.initial ?? createGame(getInitialSeed()));
+  const [sharedLevel] = useState(getInitialLevel);
+  const [screen, setScreen] = useState<'home' | 'game' | 'replay' | 'editor' | 'race'>(
+    replayTimeline ? 'replay' : sharedLevel ? 'editor' : 'home',
+  );
+  const [editorLevel, setEditorLevel] = useState<LevelConfig>(() => sharedLevel ?? blankLevel());
+  const [recording, setRecording] = useState<Replay>(() => startReplay(game));
+  const [replayIndex, setReplayIndex] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayCopied, setReplayCopied] = useState(false);
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+  const [submission, setSubmission] = useState<SubmissionState>({ status: 'idle' });
+  const [savedGame, setSavedGame] = useState<LoadedGame | null>(loadSave);
+  const [progress, setProgress] = useState(loadProgress);
+  const [modeBests, setModeBests] = useState(loadModeBests);
+  const [daily, setDaily] = useState(loadDaily);
+  const [dailyCopied, setDailyCopied] = useState(false);
+  const [selection, setSelection] = useState<Cell[]>([]);
+  const [hint, setHint] = useState<Cell[] | null>(null);
+  const [hintsLeft, setHintsLeft] = useState(HINTS_PER_LEVEL);
+  const [undosLeft, setUndosLeft] = useState(UNDOS_PER_LEVEL);
+  // States before each move of the current level. The engine is seeded, so
+  // restoring one brings back the exact board, refills included.
+  const [history, setHistory] = useState<GameState[]>([]);
+  const [autoplay, setAutoplay] = useState(false);
+  // Games the bot played any part of aren't submitted to the leaderboards.
+  const [botAssisted, setBotAssisted] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
-  const [score, setScore] = useState(0);
-  const [moves, setMoves] = useState(generateLevelConfig(0).moves);
-  const [targets, setTargets] = useState<Partial<Record<BallColor, number>>>(generateLevelConfig(0).targets);
-  const [gameState, setGameState] = useState<'home' | 'playing' | 'won' | 'lost' | 'levelup'>('home');
+  // Focus cell for keyboard and gamepad play; hidden (null) while using the pointer.
+  const [cursor, setCursor] = useState<Cell | null>(null);
   const [effects, setEffects] = useState<Effect[]>([]);
+  // The board to show while a move's cascades play out. It only applies to the
+  // state it was staged for, so undo or a new level drops it.
+  const [staged, setStaged] = useState<{ game: GameState; grid: Grid } | null>(null);
   const [shake, setShake] = useState(false);
-  const [muted, setMuted] = useState(false);
-  const [multiplierTurns, setMultiplierTurns] = useState(0);
-  const [combo, setCombo] = useState(0);
-  const [comboMeter, setComboMeter] = useState(0);
+  const [settings, setSettings] = useState(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showVersusSetup, setShowVersusSetup] = useState(false);
+  // The race room as the server last described it; null when not in one.
+  const [race, setRace] = useState<RoomView | null>(null);
+  const [raceYou, setRaceYou] = useState('');
+  const [raceStatus, setRaceStatus] = useState<RaceStatus>('closed');
+  const [raceError, setRaceError] = useState('');
+  // Bumped by every welcome, so a reconnect rebuilds the board from the server's chains.
+  const [raceResync, setRaceResync] = useState(0);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(systemPrefersReducedMotion);
+  // Latest screen-reader message, read out by the live region.
+  const [announcement, setAnnouncement] = useState('');
+
+  const { level, grid, score, moves, targets, multiplierTurns, combo, comboMeter } = game;
+  const gameState = screen === 'home' ? 'home' : game.status;
+  const isReplay = screen === 'replay';
+  const showHud = gameState !== 'home' && screen !== 'editor' && screen !== 'race';
+  // Play-testing an editor level: no saves, submissions or campaign progression.
+  const playtest = game.mode === 'custom';
+  const levelName = playtest
+    ? editorLevel.name
+    : isScoreMode(game.mode) ? MODE_LABELS[game.mode] : game.mode === 'daily' ? 'Daily Challenge' : game.mode === 'versus' ? 'Versus' : game.mode === 'race' ? 'Race' : LEVELS[level]?.name;
+  const modeBest = isScoreMode(game.mode) ? modeBests[game.mode] ?? 0 : 0;
+  // Shown on the level badge when the level changes how chains connect.
+  const rulesLabel = [
+    game.rules.adjacency !== DEFAULT_RULES.adjacency && game.rules.adjacency.toUpperCase(),
+    game.rules.minMatch !== DEFAULT_RULES.minMatch && `MIN ${game.rules.minMatch}`,
+    game.rules.cascade && 'CASCADE',
+  ].filter(Boolean).join(' · ');
+  const stars = rateLevel(game);
+  // Level bests only exist for campaign levels (the last one is sent with the
+  // winning run); endless level-ups aren't ranked.
+  const isRanked = !botAssisted && (game.mode === 'campaign' || (game.mode === 'endless' && gameState !== 'levelup'));
+  const firstUnfinished = LEVELS.findIndex((_, i) => !progress[i]);
+  const nextCampaignLevel = firstUnfinished === -1 ? LEVELS.length - 1 : firstUnfinished;
+  const cascading = staged?.game === game;
+  const shownGrid = cascading ? staged.grid : grid;
+  // Race moves only count while the server is there to take them.
+  const raceLive = game.mode !== 'race' || (raceStatus === 'connected' && race?.phase === 'racing');
+  const canPlay = screen === 'game' && game.status === 'playing' && !cascading && raceLive;
+  // The daily attempt, versus turns and races are for people to play.
+  const botAllowed = game.mode !== 'daily' && game.mode !== 'versus' && game.mode !== 'race';
+  // A race ends for everyone once someone clears it, even mid-move for the rest.
+  const raceOver = game.mode === 'race' && race?.phase === 'finished';
+  const raceWinner = raceOver ? rankRacers(race.racers).find((racer) => racer.status === 'won') ?? null : null;
+  const winners = versusWinners(game);
+  const colors = colorClasses(settings.palette);
+  const reduceMotion = settings.motion === 'reduced' || (settings.motion === 'system' && systemReducedMotion);
+  // A chain is being built, by pointer drag or by keyboard/gamepad.
+  const linking = isDragging || (cursor !== null && selection.length > 0);
 
   const gridRef = useRef<HTMLDivElement>(null);
+  const botChain = useRef<Cell[] | null>(null);
+  const botRng = useRef<Rng>(createRng(0));
+  // Searches finish after a render or two; their results only apply to the board they were run on.
+  const currentGrid = useRef(grid);
+  currentGrid.current = grid;
+  const hintSearching = useRef(false);
+  const raceConnection = useRef<RaceConnection | null>(null);
+  // Chains from the last welcome, for the board to be rebuilt from.
+  const raceRejoin = useRef<string[] | null>(null);
 
   useEffect(() => {
     const bgColor = gameState === 'home' ? BG_COLORS[0] : BG_COLORS[level % BG_COLORS.length];
@@ -240,75 +321,118 @@ export default function App() {
   }, [level, gameState]);
 
   useEffect(() => {
-    if (gameState === 'levelup') playLevelUp();
-    else if (gameState === 'won') playWin();
-    else if (gameState === 'lost') playGameOver();
-  }, [gameState]);
+    applyFeedbackSettings(settings);
+    return watchReducedMotion(setSystemReducedMotion);
+  }, []);
 
+  // The soundtrack plays while a level is in progress and builds up with the combo meter.
   useEffect(() => {
-    if (isDragging && selection.length > 0) {
-      playSelect(selection.length - 1);
-    }
-  }, [selection.length, isDragging]);
+    if (screen === 'game' && game.status === 'playing') startMusic();
+    else stopMusic();
+  }, [screen, game.status]);
 
-  const handleCellEnter = useCallback((r: number, c: number) => {
-    if (gameState !== 'playing') return;
-    
-    setSelection((prev) => {
-      if (prev.length === 0) return prev;
-      const last = prev[prev.length - 1];
-      
-      if (prev.length > 1) {
-        const secondLast = prev[prev.length - 2];
-        if (secondLast.r === r && secondLast.c === c) {
-          return prev.slice(0, -1);
-        }
-      }
+  useEffect(() => {
+    setMusicIntensity(comboMeter / 100);
+  }, [comboMeter]);
 
-      if (prev.some((s) => s.r === r && s.c === c)) {
-        return prev;
-      }
+  useEffect(() => {
+    if (gameState === 'levelup') {
+      playLevelUp();
+      vibrate([40, 30, 80]);
+    } else if (gameState === 'won') {
+      playWin();
+      vibrate([40, 30, 40, 30, 150]);
+    } else if (gameState === 'lost') {
+      playGameOver();
+      vibrate(300);
+    }
+  }, [gameState]);
 
-      const isAdjacent = Math.abs(last.r - r) <= 1 && Math.abs(last.c - c) <= 1 && !(last.r === r && last.c === c);
+  useEffect(() => {
+    if (screen !== 'game' || game.mode !== 'campaign' || stars === 0) return;
+    setProgress((prev) => recordLevelResult(prev, level, stars, score - game.levelStartScore));
+  }, [gameState, screen]);
+
+  const submitResult = (name: string) => {
+    setSubmission({ status: 'pending' });
+    const levelBest = () => submitLevelBest({
+      player: name,
+      level: level + 1,
+      score: score - game.levelStartScore,
+      movesLeft: moves,
+      replay: serializeReplay(recording),
+    });
+    const run = () => submitRun({
+      player: name,
+      seed: game.seed,
+      levelReached: level + 1,
+      score,
+      movesUsed: countReplayMoves(recording),
+      replay: serializeReplay(recording),
+    });
+    // Winning the campaign finishes its last level too; the run's rank is the one shown.
+    const request = game.status === 'levelup'
+      ? levelBest()
+      : game.mode === 'campaign' && game.status === 'won'
+        ? Promise.all([run(), levelBest()]).then(([ranked]) => ranked)
+        : run();
+    request
+      .then(({ rank, total }) => setSubmission({ status: 'done', rank, total }))
+      .catch((err) => setSubmission({ status: 'error', message: err.message }));
+  };
 
-      if (isAdjacent) {
-        const ball = grid[r][c];
-        if (!ball) return prev;
+  useEffect(() => {
+    if (screen !== 'game' || !isRanked || gameState === 'playing') return;
+    if (playerName) submitResult(playerName);
+    else setSubmission({ status: 'idle' });
+  }, [gameState, screen]);
 
-        // Find the target color of the current chain
-        let targetColor: BallColor | null = null;
-        for (const s of prev) {
-          const b = grid[s.r][s.c];
-          if (b && b.color !== 'rainbow' && b.color !== 'special') {
-            targetColor = b.color;
-            break;
-          }
-        }
+  useEffect(() => {
+    if (screen !== 'game' || botAssisted || !isScoreMode(game.mode) || (gameState !== 'lost' && gameState !== 'won')) return;
+    setModeBests((prev) => recordModeScore(prev, game.mode as ScoreMode, score));
+  }, [gameState, screen]);
 
-        // Logic for connecting:
-        // 1. Rainbow can connect to anything.
-        // 2. Special can connect if chain length >= 4.
-        // 3. If targetColor is null (only rainbows so far), anything can connect.
-        // 4. Otherwise, must match targetColor or be rainbow.
+  useEffect(() => {
+    if (screen !== 'game' || game.mode !== 'daily' || (gameState !== 'lost' && gameState !== 'won')) return;
+    setDaily((prev) => recordDailyResult(prev, summarizeDaily(dailySeedDate(game.seed), game, recording, stars)));
+  }, [gameState, screen]);
 
-        if (ball.color === 'rainbow' || ball.color === 'special') return [...prev, { r, c }];
-        
-        if (!targetColor || ball.color === targetColor) return [...prev, { r, c }];
-      }
+  // Autosave after every committed move and level change; finished games can't be resumed.
+  useEffect(() => {
+    if (screen !== 'game' || playtest || game.mode === 'timeAttack' || game.mode === 'versus' || game.mode === 'race') return;
+    if (game.status === 'lost' || game.status === 'won') clearSave();
+    else writeSave(game, recording, botAssisted);
+  }, [game, screen, botAssisted]);
+
+  const handleSubmitName = (name: string) => {
+    savePlayerName(name);
+    setPlayerName(name);
+    submitResult(name);
+  };
 
-      return prev;
-    });
-  }, [grid, gameState]);
+  useEffect(() => {
+    if (isDragging && selection.length > 0) {
+      playSelect(selection.length - 1);
+    }
+  }, [selection.length, isDragging]);
+
+  const handleCellEnter = useCallback((r: number, c: number) => {
+    if (!canPlay) return;
+    
+    setSelection((prev) => tryExtendChain(game, prev, { r, c }));
+  }, [game, canPlay]);
 
   const handlePointerDown = (r: number, c: number, e: React.PointerEvent) => {
     initAudio();
-    if (gameState !== 'playing' || !grid[r][c]) return;
+    if (!canPlay || autoplay || !isSelectable(game, { r, c })) return;
+    setCursor(null);
+    setHint(null);
     setIsDragging(true);
     setSelection([{ r, c }]);
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
-    if (!isDragging || gameState !== 'playing') return;
+    if (!isDragging || !canPlay) return;
     e.preventDefault();
 
     const el = document.elementFromPoint(e.clientX, e.clientY);
@@ -320,40 +444,18 @@ export default function App() {
     }
   };
 
-  const applyGravity = (currentGrid: (Ball | null)[][]) => {
-    const newGrid = currentGrid.map((row) => [...row]);
-    const colors: BallColor[] = ['red', 'blue', 'yellow', 'green', 'purple'];
-
-    for (let c = 0; c < COLS; c++) {
-      let emptySpaces = 0;
-      for (let r = ROWS - 1; r >= 0; r--) {
-        if (newGrid[r][c] === null) {
-          emptySpaces++;
-        } else if (emptySpaces > 0) {
-          newGrid[r + emptySpaces][c] = newGrid[r][c];
-          newGrid[r][c] = null;
-        }
-      }
-      for (let r = 0; r < emptySpaces; r++) {
-        newGrid[r][c] = {
-          id: `new-${Date.now()}-${r}-${c}-${Math.random()}`,
-          color: colors[Math.floor(Math.random() * colors.length)],
-        };
-      }
-    }
-    return newGrid;
-  };
-
   const triggerExplosion = (r: number, c: number, color: string, selection: {r: number, c: number}[], delay: number = 0, customText?: string) => {
+    if (!customText && !settings.comicWords) return;
     const isBonus = selection.length >= 5;
-    const rect = gridRef.current?.getBoundingClientRect();
-    if (!rect) return;
+    // Measured from the rendered cell, so effects line up on any board size or shape.
+    const cellEl = gridRef.current?.querySelector(`[data-row="${r}"][data-col="${c}"]`);
+    if (!gridRef.current || !cellEl) return;
+    const rect = gridRef.current.getBoundingClientRect();
+    const cellRect = cellEl.getBoundingClientRect();
+    const x = cellRect.left - rect.left + cellRect.width / 2;
+    const y = cellRect.top - rect.top + cellRect.height / 2;
 
     setTimeout(() => {
-      const cellWidth = rect.width / COLS;
-      const cellHeight = rect.height / ROWS;
-      const x = c * cellWidth + cellWidth / 2;
-      const y = r * cellHeight + cellHeight / 2;
 
       let text = customText || '';
       if (!text) {
@@ -388,174 +490,120 @@ export default function App() {
     }, delay);
   };
 
-  const handlePointerUp = () => {
-    if (!isDragging) return;
-    setIsDragging(false);
-
-    if (selection.length >= MIN_MATCH && gameState === 'playing') {
-      const firstBall = grid[selection[0].r][selection[0].c];
-      if (firstBall) {
-        let chainColor: BallColor | null = null;
-        for (const s of selection) {
-          const b = grid[s.r][s.c];
-          if (b && b.color !== 'rainbow' && b.color !== 'special') {
-            chainColor = b.color;
-            break;
-          }
-        }
-        
-        // Check powerups
-        let addedMoves = 0;
-        let activatedMultiplier = false;
-        let activatedBomb = false;
-
-        selection.forEach(({ r, c }) => {
-          const ball = grid[r][c];
-          if (ball?.powerup === 'moves') addedMoves += 3;
-          if (ball?.powerup === 'multiplier') activatedMultiplier = true;
-          if (ball?.powerup === 'bomb') activatedBomb = true;
-        });
-
-        let finalSelection = [...selection];
-        if (activatedBomb && chainColor) {
-          for (let r = 0; r < ROWS; r++) {
-            for (let c = 0; c < COLS; c++) {
-              const b = grid[r][c];
-              if (b && b.color === chainColor && !finalSelection.some(s => s.r === r && s.c === c)) {
-                finalSelection.push({ r, c });
-              }
-            }
-          }
-        }
-
-        const color = firstBall.color;
-        const isBonus = finalSelection.length >= 5;
-        const isSuperBonus = finalSelection.length >= 10;
-
-        // Combo logic
-        setCombo(c => c + 1);
-        setComboMeter(prev => {
-          const increment = Math.min(25, 10 + (finalSelection.length - 3) * 5);
-          const newValue = prev + increment;
-          if (newValue >= 100) {
-            // Combo Breakout!
-            setScore(s => s + 500);
-            setMoves(m => m + 2);
-            triggerExplosion(finalSelection[0].r, finalSelection[0].c, 'special', finalSelection, 600, "COMBO BREAKOUT!");
-            triggerExplosion(finalSelection[0].r, finalSelection[0].c, 'special', finalSelection, 750, "+500 PTS");
-            triggerExplosion(finalSelection[0].r, finalSelection[0].c, 'special', finalSelection, 900, "+2 MOVES");
-            playRainbow();
-            return 0; // Reset meter
-          }
-          return newValue;
-        });
-
-        // Trigger multiple explosions for more "POW WOW" feel
-        if (isSuperBonus) {
-          addedMoves += 1; // Give +1 move for 10+ combo
+  const playEvents = (events: GameEvent[]) => {
+    events.forEach((event) => {
+      switch (event.type) {
+        case 'superBonus': {
           // Trigger 3 explosions for super bonus
-          triggerExplosion(finalSelection[0].r, finalSelection[0].c, color, finalSelection, 0);
-          triggerExplosion(finalSelection[Math.floor(finalSelection.length / 2)].r, finalSelection[Math.floor(finalSelection.length / 2)].c, color, finalSelection, 150);
-          triggerExplosion(finalSelection[finalSelection.length - 1].r, finalSelection[finalSelection.length - 1].c, color, finalSelection, 300);
-          // Show +1 MOVE effect
-          triggerExplosion(finalSelection[Math.floor(finalSelection.length / 2)].r, finalSelection[Math.floor(finalSelection.length / 2)].c, 'special', finalSelection, 450, "+1 MOVE!");
-        } else if (isBonus) {
+          const { cells, color } = event;
+          const mid = cells[Math.floor(cells.length / 2)];
+          triggerExplosion(cells[0].r, cells[0].c, color, cells, 0);
+          triggerExplosion(mid.r, mid.c, color, cells, 150);
+          triggerExplosion(cells[cells.length - 1].r, cells[cells.length - 1].c, color, cells, 300);
+          if (event.addedMoves > 0) triggerExplosion(mid.r, mid.c, 'special', cells, 450, `+${event.addedMoves} MOVE!`);
+          playRainbow();
+          vibrate([40, 40, 40, 40, 80]);
+          break;
+        }
+        case 'bonus': {
           // Trigger 2 explosions for bonus
-          triggerExplosion(finalSelection[0].r, finalSelection[0].c, color, finalSelection, 0);
-          triggerExplosion(finalSelection[finalSelection.length - 1].r, finalSelection[finalSelection.length - 1].c, color, finalSelection, 200);
-        } else {
+          const { cells, color } = event;
+          triggerExplosion(cells[0].r, cells[0].c, color, cells, 0);
+          triggerExplosion(cells[cells.length - 1].r, cells[cells.length - 1].c, color, cells, 200);
+          playBonus();
+          vibrate([30, 30, 50]);
+          break;
+        }
+        case 'pop': {
           // Standard explosion at center
-          const centerIdx = Math.floor(finalSelection.length / 2);
-          const centerCell = finalSelection[centerIdx];
-          triggerExplosion(centerCell.r, centerCell.c, color, finalSelection);
+          const { cells, color } = event;
+          const centerCell = cells[Math.floor(cells.length / 2)];
+          triggerExplosion(centerCell.r, centerCell.c, color, cells);
+          playPop(cells.length);
+          vibrate(20);
+          break;
         }
-        
-        if (isSuperBonus) {
-          playRainbow();
-        } else if (isBonus) {
-          playBonus();
-        } else {
-          playPop(finalSelection.length);
+        case 'cascade': {
+          // Fires as the board the cascade popped from gives way to the next one.
+          const { cells, grid: popped } = event;
+          const delay = event.step * CASCADE_STEP_MS;
+          const centerCell = cells[Math.floor(cells.length / 2)];
+          const color = popped[centerCell.r][centerCell.c]?.color ?? 'special';
+          triggerExplosion(centerCell.r, centerCell.c, color, cells, delay, `CASCADE ${event.multiplier}x!`);
+          setTimeout(() => {
+            playBonus();
+            vibrate([30, 30, 30]);
+          }, delay);
+          break;
         }
-        
-        if (finalSelection.length >= 5) {
-          setShake(true);
-          setTimeout(() => setShake(false), 300);
+        case 'itemDropped': {
+          const { cell } = event;
+          triggerExplosion(cell.r, cell.c, 'item', [cell], 300, "DELIVERED!");
+          playLevelUp();
+          break;
         }
-
-        let newGrid = grid.map((row) => [...row]);
-        
-        // Clear balls
-        finalSelection.forEach(({ r, c }) => {
-          newGrid[r][c] = null;
-        });
-
-        // Create special/rainbow at the end of ORIGINAL selection
-        const lastSelected = selection[selection.length - 1];
-        if (isSuperBonus) {
-          newGrid[lastSelected.r][lastSelected.c] = { id: `rainbow-${Date.now()}`, color: 'rainbow' };
-        } else if (isBonus) {
-          newGrid[lastSelected.r][lastSelected.c] = { id: `special-${Date.now()}`, color: 'special' };
+        case 'breakout': {
+          const { cells } = event;
+          triggerExplosion(cells[0].r, cells[0].c, 'special', cells, 600, "COMBO BREAKOUT!");
+          triggerExplosion(cells[0].r, cells[0].c, 'special', cells, 750, `+${event.points} PTS`);
+          if (event.moves > 0) triggerExplosion(cells[0].r, cells[0].c, 'special', cells, 900, `+${event.moves} MOVES`);
+          playRainbow();
+          vibrate([60, 40, 60, 40, 100]);
+          break;
         }
-
-        newGrid = applyGravity(newGrid);
-        setGrid(newGrid);
-        
-        // Score calculation
-        const baseScore = finalSelection.length * 10;
-        let bonusMultiplier = isSuperBonus ? 4 : (isBonus ? 2 : 1);
-        if (multiplierTurns > 0 || activatedMultiplier) {
-          bonusMultiplier *= 2;
+        case 'timeBonus': {
+          const center = { r: Math.floor(grid.length / 2), c: Math.floor(grid[0].length / 2) };
+          triggerExplosion(center.r, center.c, 'special', [center], 200, `+${event.seconds} SEC!`);
+          break;
         }
-        setScore((s) => s + baseScore * bonusMultiplier);
-        
-        const newMoves = moves - 1 + addedMoves;
-        setMoves(newMoves);
-
-        if (activatedMultiplier) {
-          setMultiplierTurns(3);
-        } else if (multiplierTurns > 0) {
-          setMultiplierTurns(m => m - 1);
+        case 'reshuffle': {
+          // No chain was left, so the engine shuffled the board; the balls pop back in at new spots.
+          const center = { r: Math.floor(grid.length / 2), c: Math.floor(grid[0].length / 2) };
+          triggerExplosion(center.r, center.c, 'rainbow', [center], 400, 'RESHUFFLE!');
+          setTimeout(playRainbow, 400);
+          break;
         }
-
-        setTargets((prev) => {
-          const newTargets = { ...prev };
-          
-          // Check if rainbow or special was used in the selection
-          const usedRainbow = finalSelection.some(s => grid[s.r][s.c]?.color === 'rainbow');
-          const usedSpecial = finalSelection.some(s => grid[s.r][s.c]?.color === 'special');
-
-          if (usedRainbow) {
-            // Rainbow contributes to ALL targets!
-            Object.keys(newTargets).forEach(c => {
-              newTargets[c as BallColor] = Math.max(0, newTargets[c as BallColor]! - finalSelection.length);
-            });
-          } else {
-            if (chainColor && newTargets[chainColor] !== undefined) {
-              // Special ball doubles the impact on the target!
-              const multiplier = usedSpecial ? 2 : 1;
-              newTargets[chainColor] = Math.max(0, newTargets[chainColor]! - (finalSelection.length * multiplier));
-            }
-          }
-          
-          const isWon = Object.values(newTargets).every(count => count === 0);
-          if (isWon) {
-            setGameState('levelup');
-          } else if (newMoves <= 0) {
-            setGameState('lost');
-          }
-          
-          return newTargets;
-        });
-      } else if (selection.length > 0) {
-        // Reset combo on invalid selection
-        setCombo(0);
-        setComboMeter(prev => Math.max(0, prev - 15));
       }
+      if (!reduceMotion && (event.type === 'bonus' || event.type === 'superBonus' || event.type === 'reshuffle')) {
+        setShake(true);
+        setTimeout(() => setShake(false), 300);
+      }
+    });
+  };
+
+  // Shows the board each cascade popped from in turn, then the settled one.
+  const stageCascades = (after: GameState, events: GameEvent[]) => {
+    const boards = events.flatMap((event) => (event.type === 'cascade' ? [event.grid] : []));
+    if (boards.length === 0) return;
+    setStaged({ game: after, grid: boards[0] });
+    boards.forEach((_, i) => {
+      setTimeout(() => {
+        setStaged((prev) => (prev?.game !== after ? prev : boards[i + 1] ? { game: after, grid: boards[i + 1] } : null));
+      }, (i + 1) * CASCADE_STEP_MS);
+    });
+  };
+
+  const commitSelection = (chain: Cell[]) => {
+    // Letting go of a too-short chain still costs the combo, so it is a move of its own.
+    const { state, events } = isShortChain(game, chain) ? releaseShortChain(game) : commitChain(game, chain);
+    if (events.length > 0) {
+      setHistory((prev) => [...prev, game]);
+      setGame(state);
+      setRecording((prev) => recordMove(prev, chain, state));
+      if (game.mode === 'race') raceConnection.current?.send({ type: 'move', chain: encodeChain(chain) });
+      stageCascades(state, events);
+      playEvents(events);
+      setAnnouncement([describeMove(game, chain, state, events), describeOutcome(state, rateLevel(state))].filter(Boolean).join('. '));
     }
     setSelection([]);
   };
 
+  const handlePointerUp = () => {
+    if (!isDragging) return;
+    setIsDragging(false);
+    commitSelection(selection);
+  };
+
   useEffect(() => {
     const handleGlobalPointerUp = () => {
       if (isDragging) {
@@ -564,64 +612,508 @@ export default function App() {
     };
     window.addEventListener('pointerup', handleGlobalPointerUp);
     return () => window.removeEventListener('pointerup', handleGlobalPointerUp);
-  }, [isDragging, selection, grid, moves, gameState, level]);
+  }, [isDragging, selection, game, gameState]);
 
-  const startGame = () => {
+  // --- KEYBOARD & GAMEPAD ---
+  // Returns whether the action applied, so key presses that don't drive the
+  // board keep their default behaviour.
+  const handleInput = (action: InputAction): boolean => {
+    if (!canPlay || autoplay || isDragging || showSettings) return false;
+    initAudio();
+    const at = cursorStart(game, cursor, selection);
+    // The first press only reveals the cursor.
+    if (!cursor && (action.type === 'move' || action.type === 'select')) {
+      setCursor(at);
+      return true;
+    }
+    switch (action.type) {
+      case 'move': {
+        const next = stepCursor(game, at, action.dr, action.dc);
+        setCursor(next);
+        setAnnouncement(describeCell(game, next));
+        break;
+      }
+      case 'select':
+        if (selection.length === 0) {
+          if (!isSelectable(game, at)) break;
+          setHint(null);
+          setSelection([at]);
+          playSelect(0);
+        } else {
+          const next = tryExtendChain(game, selection, at);
+          if (next.length > selection.length) playSelect(next.length - 1);
+          setSelection(next);
+        }
+        break;
+      case 'commit':
+        if (selection.length > 0) commitSelection(selection);
+        break;
+      case 'cancel':
+        setSelection([]);
+        break;
+    }
+    return true;
+  };
+
+  useEffect(() => {
+    if (linking) setAnnouncement(describeChain(game, selection));
+  }, [selection]);
+
+  const inputHandler = useRef(handleInput);
+  inputHandler.current = handleInput;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.ctrlKey || e.metaKey || e.altKey || target?.closest('input, textarea, select')) return;
+      const action = KEY_ACTIONS[e.code];
+      if (!action || (e.repeat && action.type !== 'move')) return;
+      if (inputHandler.current(action)) e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    const stopGamepads = watchGamepads((action) => inputHandler.current(action));
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      stopGamepads();
+    };
+  }, []);
+
+  // Hints, undos and the undo history are per level.
+  const resetLevelAids = () => {
+    setHintsLeft(HINTS_PER_LEVEL);
+    setUndosLeft(UNDOS_PER_LEVEL);
+    setHistory([]);
+  };
+
+  const beginGame = (state: GameState) => {
+    setGame(state);
+    setRecording(startReplay(state));
+    resetLevelAids();
+    setBotAssisted(false);
+    setSelection([]);
+    setEffects([]);
+  };
+
+  const startCampaign = (startLevel: number) => {
+    initAudio();
+    playClick();
+    beginGame(createGame(getInitialSeed(), 'campaign', startLevel));
+    setScreen('game');
+  };
+
+  const startMode = (mode: ScoreMode) => {
+    initAudio();
+    playClick();
+    beginGame(createGame(getInitialSeed(), mode));
+    setScreen('game');
+  };
+
+  const openVersusSetup = () => {
+    initAudio();
+    playClick();
+    setShowVersusSetup(true);
+  };
+
+  const startVersus = (playerCount: number, withTargets: boolean) => {
+    initAudio();
+    playClick();
+    setShowVersusSetup(false);
+    beginGame(createVersusGame(getInitialSeed(), playerCount, withTargets));
+    setScreen('game');
+  };
+
+  const continueGame = () => {
+    if (!savedGame) return;
     initAudio();
     playClick();
-    setGameState('playing');
+    setGame(savedGame.game);
+    setRecording(savedGame.recording);
+    resetLevelAids();
+    setBotAssisted(savedGame.botAssisted);
+    setSelection([]);
+    setEffects([]);
+    setScreen('game');
   };
 
   const startNextLevel = () => {
     initAudio();
     playClick();
-    const nextLevel = level + 1;
-    setLevel(nextLevel);
-    setGrid(generateGrid(ROWS, COLS));
-    const config = generateLevelConfig(nextLevel);
-    setMoves(config.moves);
-    setTargets(config.targets);
-    setGameState('playing');
+    const next = nextLevel(game);
+    setGame(next);
+    setRecording((prev) => recordLevel(prev, next));
+    resetLevelAids();
     setSelection([]);
     setEffects([]);
-    setMultiplierTurns(0);
   };
 
   const resetGame = () => {
     initAudio();
     playClick();
-    setLevel(0);
-    setGrid(generateGrid(ROWS, COLS));
-    setScore(0);
-    const config = generateLevelConfig(0);
-    setMoves(config.moves);
-    setTargets(config.targets);
-    setGameState('playing');
+    // Start over where this game started: the same campaign level, or level 1 of the other modes.
+    beginGame(game.mode === 'versus'
+      ? createVersusGame(randomSeed(), game.players.length, isTargetRace(game))
+      : createGame(randomSeed(), game.mode === 'custom' ? 'campaign' : game.mode, recording.levels[0].level));
+    setScreen('game');
+  };
+
+  const goToHome = () => {
+    initAudio();
+    playClick();
+    if (isReplay || screen === 'editor') {
+      // Drop ?replay= / ?level= so a refresh doesn't reopen them.
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    raceConnection.current?.close();
+    raceConnection.current = null;
+    setScreen('home');
+    setReplayTimeline(null);
+    setReplayPlaying(false);
+    setSavedGame(loadSave());
+    beginGame(createGame(randomSeed()));
+  };
+
+  // --- LEVEL EDITOR ---
+  const openEditor = () => {
+    initAudio();
+    playClick();
+    setScreen('editor');
+  };
+
+  const playTestLevel = (config: LevelConfig) => {
+    initAudio();
+    playClick();
+    setEditorLevel(config);
+    beginGame(createLevelGame(config, randomSeed()));
+    setScreen('game');
+  };
+
+  const backToEditor = () => {
+    initAudio();
+    playClick();
     setSelection([]);
     setEffects([]);
-    setMultiplierTurns(0);
+    setScreen('editor');
   };
 
-  const goToHome = () => {
+  // --- REPLAY ---
+  const watchReplay = (replay: Replay) => {
+    initAudio();
+    playClick();
+    const timeline = buildTimeline(replay);
+    setReplayTimeline(timeline);
+    setReplayIndex(0);
+    setReplayPlaying(true);
+    setGame(timeline.initial);
+    setSelection([]);
+    setEffects([]);
+    setScreen('replay');
+  };
+
+  const shareReplay = () => {
+    const url = `${window.location.origin}${window.location.pathname}?replay=${serializeReplay(recording)}`;
+    navigator.clipboard?.writeText(url).then(() => {
+      setReplayCopied(true);
+      setTimeout(() => setReplayCopied(false), 2000);
+    });
+  };
+
+  // Moves are shown in two beats: the chain is highlighted first, then committed.
+  const stepReplay = (preview: boolean) => {
+    if (!replayTimeline) return;
+    const step = replayTimeline.steps[replayIndex];
+    if (!step) {
+      setReplayPlaying(false);
+      return;
+    }
+    if (step.type === 'move' && preview && selection.length === 0) {
+      setSelection(step.chain);
+      return;
+    }
+    setSelection([]);
+    setGame(step.after);
+    if (step.type === 'move') {
+      stageCascades(step.after, step.events);
+      playEvents(step.events);
+    }
+    setReplayIndex((i) => i + 1);
+  };
+
+  const restartReplay = () => {
+    if (!replayTimeline) return;
+    playClick();
+    setGame(replayTimeline.initial);
+    setReplayIndex(0);
+    setSelection([]);
+    setEffects([]);
+  };
+
+  useEffect(() => {
+    if (!isReplay || !replayPlaying) return;
+    const timer = setTimeout(() => stepReplay(true), REPLAY_STEP_MS / replaySpeed);
+    return () => clearTimeout(timer);
+  }, [isReplay, replayPlaying, replaySpeed, replayIndex, selection]);
+  // --- END REPLAY ---
+
+  // --- HINTS ---
+  // A hint only applies to the board it was computed for.
+  // Keyed on the board rather than the state, so clock ticks don't reset them.
+  useEffect(() => {
+    setHint(null);
+  }, [grid, screen]);
+
+  useEffect(() => {
+    if (!canPlay || hint || linking) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchHint(game)
+        .then((chain) => {
+          if (!cancelled) setHint(chain);
+        })
+        .catch(() => {});
+    }, HINT_IDLE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [grid, canPlay, hint, linking]);
+
+  // The hint is only used up once it shows.
+  const showHint = () => {
+    initAudio();
+    if (!canPlay || hint || hintsLeft === 0 || hintSearching.current) return;
+    playClick();
+    const board = grid;
+    hintSearching.current = true;
+    searchHint(game)
+      .then((chain) => {
+        if (currentGrid.current !== board || !chain) return;
+        setHint(chain);
+        setHintsLeft((n) => n - 1);
+      })
+      .catch(() => {})
+      .finally(() => {
+        hintSearching.current = false;
+      });
+  };
+
+  // --- UNDO ---
+  // Undo would wind the time-attack clock back too, take back moves of the one
+  // daily attempt, or in versus take back the other player's move.
+  const canUndo = canPlay && !autoplay && game.mode !== 'timeAttack' && botAllowed && undosLeft > 0 && history.length > 0;
+
+  const undo = () => {
+    initAudio();
+    if (!canUndo) return;
+    playClick();
+    setGame(history[history.length - 1]);
+    setHistory((prev) => prev.slice(0, -1));
+    setRecording((prev) => undoMove(prev));
+    setUndosLeft((n) => n - 1);
+    setSelection([]);
+    setEffects([]);
+  };
+
+  // --- TIME ATTACK & ZEN ---
+  // The clock only runs while the board can be played, so cascades, the
+  // settings panel and other screens pause it.
+  useEffect(() => {
+    if (!canPlay || game.mode !== 'timeAttack' || showSettings) return;
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      const elapsed = now - last;
+      last = now;
+      setGame((prev) => tickClock(prev, elapsed).state);
+    }, CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [canPlay, game.mode, showSettings]);
+
+  const finishSession = () => {
+    initAudio();
+    playClick();
+    setSelection([]);
+    setAutoplay(false);
+    const { state, events } = endSession(game);
+    setGame(state);
+    setAnnouncement(describeOutcome(state, 0));
+    playEvents(events);
+  };
+
+  // --- DAILY CHALLENGE ---
+  const today = dailyDate();
+  const dailyPlayed = hasPlayedDaily(daily, today);
+  const dailyResult = dailyPlayed ? daily.result : null;
+  // An attempt left unfinished can be picked up again from the save.
+  const dailySaved = savedGame?.game.mode === 'daily' && savedGame.game.seed === dailySeed(today);
+  const dailySummary = game.mode === 'daily' && (gameState === 'won' || gameState === 'lost')
+    ? summarizeDaily(dailySeedDate(game.seed), game, recording, stars)
+    : null;
+
+  const startDaily = () => {
+    if (dailySaved) {
+      continueGame();
+      return;
+    }
+    if (dailyPlayed) return;
+    initAudio();
+    playClick();
+    setDaily((prev) => recordDailyStart(prev, today));
+    beginGame(createDailyGame(today));
+    setScreen('game');
+  };
+
+  const shareDaily = (result: DailyResult) => {
+    initAudio();
+    playClick();
+    const streak = daily.date === result.date ? daily.streak : 1;
+    navigator.clipboard?.writeText(formatShareCard(result, streak)).then(() => {
+      setDailyCopied(true);
+      setTimeout(() => setDailyCopied(false), 2000);
+    });
+  };
+
+  // --- RACE ---
+  // A stored session means this tab was racing before a reload.
+  const raceSession = screen === 'home' ? loadRaceSession() : null;
+
+  const joinRace = (name: string, code?: string) => {
     initAudio();
     playClick();
-    setGameState('home');
-    setLevel(0);
-    setScore(0);
-    const config = generateLevelConfig(0);
-    setMoves(config.moves);
-    setTargets(config.targets);
-    setGrid(generateGrid(ROWS, COLS));
-    setMultiplierTurns(0);
-    setCombo(0);
-    setComboMeter(0);
+    const trimmed = name.trim();
+    if (trimmed) {
+      savePlayerName(trimmed);
+      setPlayerName(trimmed);
+    }
+    raceConnection.current?.close();
+    setRaceError('');
+    raceConnection.current = connectRace(trimmed, code, {
+      onMessage: (message) => {
+        if (message.type === 'welcome') {
+          setRaceYou(message.you);
+          raceRejoin.current = message.chains;
+          setRaceResync((n) => n + 1);
+        } else if (message.type === 'room') {
+          setRace(message.room);
+        } else {
+          setRaceError(message.message);
+        }
+      },
+      onStatus: (status) => {
+        setRaceStatus(status);
+        if (status === 'closed') setRace(null);
+      },
+    });
+  };
+
+  const openRace = () => {
+    if (raceSession) joinRace(playerName, raceSession.room);
+    else {
+      initAudio();
+      playClick();
+      setRaceError('');
+    }
+    setScreen('race');
+  };
+
+  const setRaceReady = (ready: boolean) => {
+    playClick();
+    raceConnection.current?.send({ type: 'ready', ready });
   };
 
-  const handleToggleMute = () => {
+  const rematchRace = () => {
     initAudio();
-    const newMuted = toggleMute();
-    setMuted(newMuted);
-    if (!newMuted) playClick();
+    playClick();
+    raceConnection.current?.send({ type: 'rematch' });
+  };
+
+  // Follows the room: the lobby until the race starts, then a board for its seed.
+  useEffect(() => {
+    if (!race) {
+      if (screen === 'game' && game.mode === 'race') setScreen('race');
+      return;
+    }
+    setRaceError('');
+    if (race.phase === 'lobby' || race.phase === 'countdown') {
+      setScreen('race');
+      return;
+    }
+    const chains = raceRejoin.current;
+    raceRejoin.current = null;
+    if (screen !== 'game' || chains || game.mode !== 'race' || game.seed !== race.seed) {
+      const rebuilt = rebuildRace(race.seed, chains ?? []);
+      beginGame(rebuilt.game);
+      setRecording(rebuilt.recording);
+      setScreen('game');
+    }
+  }, [race?.phase, race?.seed, raceResync]);
+
+  // --- AUTOPLAY ---
+  useEffect(() => {
+    if (screen !== 'game') setAutoplay(false);
+  }, [screen]);
+
+  useEffect(() => {
+    if (!autoplay || !canPlay || isDragging) return;
+    const chain = botChain.current;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      if (!chain) {
+        searchBotMove(game, AUTOPLAY_BOT, botRng.current)
+          .then(({ chain: next, rng }) => {
+            if (cancelled) return;
+            botRng.current = rng;
+            if (!next) {
+              setAutoplay(false);
+              return;
+            }
+            botChain.current = next;
+            setSelection([next[0]]);
+            playSelect(0);
+          })
+          .catch(() => {
+            if (!cancelled) setAutoplay(false);
+          });
+      } else if (selection.length < chain.length) {
+        setSelection(chain.slice(0, selection.length + 1));
+        playSelect(selection.length);
+      } else {
+        botChain.current = null;
+        commitSelection(chain);
+      }
+    }, chain ? AUTOPLAY_STEP_MS : AUTOPLAY_THINK_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [autoplay, canPlay, isDragging, grid, selection]);
+
+  const toggleAutoplay = () => {
+    initAudio();
+    if (!botAllowed) return;
+    playClick();
+    botChain.current = null;
+    setSelection([]);
+    if (!autoplay) {
+      botRng.current = createRng(hashSeed(`${game.seed}:autoplay`));
+      setBotAssisted(true);
+    }
+    setAutoplay((on) => !on);
+  };
+
+  const updateSettings = (patch: Partial<Settings>) => {
+    initAudio();
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next);
+    applyFeedbackSettings(next);
+    playClick();
+  };
+
+  const openSettings = () => {
+    initAudio();
+    playClick();
+    setSelection([]);
+    setShowSettings(true);
   };
 
   const isSelected = (r: number, c: number) => {
@@ -632,422 +1124,845 @@ export default function App() {
     return selection.findIndex((s) => s.r === r && s.c === c);
   };
 
+  const getHintIndex = (r: number, c: number) => {
+    return hint ? hint.findIndex((s) => s.r === r && s.c === c) : -1;
+  };
+
   const isAdjacentToLast = (r: number, c: number) => {
     if (selection.length === 0) return false;
-    const last = selection[selection.length - 1];
-    return Math.abs(last.r - r) <= 1 && Math.abs(last.c - c) <= 1 && !(last.r === r && last.c === c);
+    return isAdjacent(selection[selection.length - 1], { r, c }, game.rules.adjacency);
   };
 
-  const getChainColor = () => {
-    for (const s of selection) {
-      const b = grid[s.r][s.c];
-      if (b && b.color !== 'rainbow' && b.color !== 'special') return b.color;
+  const chainColor = getChainColor(grid, selection);
+
+  const goalProgress = (goal: LevelGoal) => {
+    switch (goal.type) {
+      case 'score':
+        return `${score - game.levelStartScore}/${goal.score}`;
+      case 'clearIce':
+        return game.tiles.reduce((total, row) => total + row.reduce((sum, tile) => sum + tile.ice, 0), 0);
+      case 'dropItems':
+        return `${game.itemsCollected}/${goal.count}`;
     }
-    return null;
   };
-
-  const chainColor = getChainColor();
-  const isValidSelection = selection.length >= MIN_MATCH;
+  const isValidSelection = selection.length >= game.rules.minMatch;
+  const isHex = game.rules.adjacency === 'hex';
 
   return (
-    <div className="min-h-[100dvh] flex flex-col items-center justify-start pt-2 sm:pt-4 p-4 font-sans select-none overflow-hidden relative">
-      
-      {/* Header */}
-      <div className={`w-full max-w-md ${gameState === 'home' ? 'mb-12 flex-col items-center text-center' : 'mb-4 flex-row justify-between items-end'} flex z-10 transition-all duration-500`}>
-        <div className={`flex flex-col ${gameState === 'home' ? 'items-center' : ''}`}>
-          <div className="flex items-center gap-2">
-            <h1 className={`font-comic ${gameState === 'home' ? 'text-7xl sm:text-8xl' : 'text-4xl sm:text-5xl'} text-[#ffcc00] comic-text tracking-wider transform -rotate-2 transition-all duration-500`}>
-              POP MATCH!
-            </h1>
-            {gameState !== 'home' && (
-              <div className="bg-white px-3 py-1 comic-border rounded-lg transform rotate-3">
-                <span className="font-comic text-xl">LVL {level + 1}</span>
+    <MotionConfig reducedMotion={reduceMotion ? 'always' : 'never'}>
+      <div className={`min-h-[100dvh] flex flex-col items-center justify-start pt-2 sm:pt-4 p-4 font-sans select-none overflow-hidden relative ${reduceMotion ? 'reduce-motion' : ''}`}>
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+        
+        {/* Header */}
+        <div className={`w-full max-w-md ${gameState === 'home' ? 'mb-12 flex-col items-center text-center' : 'mb-4 flex-row justify-between items-end'} flex z-10 transition-all duration-500`}>
+          <div className={`flex flex-col ${gameState === 'home' ? 'items-center' : ''}`}>
+            <div className="flex items-center gap-2">
+              <h1 className={`font-comic ${gameState === 'home' ? 'text-7xl sm:text-8xl' : 'text-4xl sm:text-5xl'} text-[#ffcc00] comic-text tracking-wider transform -rotate-2 transition-all duration-500`}>
+                POP MATCH!
+              </h1>
+              {showHud && (
+                <div className="bg-white px-3 py-1 comic-border rounded-lg transform rotate-3 flex flex-col items-center leading-none">
+                  <span className="font-comic text-xl">LVL {level + 1}</span>
+                  {levelName && (
+                    <span className="font-comic text-[10px] text-gray-500 uppercase tracking-wider">{levelName}</span>
+                  )}
+                  {rulesLabel && (
+                    <span className="font-comic text-[10px] text-[#cc33ff] uppercase tracking-wider">{rulesLabel}</span>
+                  )}
+                </div>
+              )}
+            </div>
+            {showHud && (
+              <div className="flex gap-4 mt-2 items-center">
+                <motion.div 
+                  animate={multiplierTurns > 0 ? {
+                    textShadow: ['0px 0px 0px rgba(255,204,0,0)', '0px 0px 10px rgba(255,204,0,1)', '0px 0px 0px rgba(255,204,0,0)']
+                  } : {}}
+                  transition={{ repeat: Infinity, duration: 1 }}
+                  className="font-comic text-xl sm:text-2xl text-white comic-text flex items-center gap-2"
+                >
+                  SCORE: 
+                  <motion.span
+                    key={score}
+                    initial={{ scale: 1.5, color: multiplierTurns > 0 ? '#ffcc00' : '#ffffff' }}
+                    animate={{ scale: 1, color: '#ffffff' }}
+                    transition={{ type: 'spring', stiffness: 300, damping: 15 }}
+                  >
+                    {score}
+                  </motion.span>
+                  <AnimatePresence>
+                    {multiplierTurns > 0 && (
+                      <motion.span 
+                        initial={{ scale: 0, opacity: 0, rotate: -10 }}
+                        animate={{ scale: [1, 1.1, 1], opacity: 1, rotate: [-5, 5, -5] }}
+                        exit={{ scale: 0, opacity: 0 }}
+                        transition={{ repeat: Infinity, duration: 0.8 }}
+                        className="bg-[#ffcc00] text-black px-2 py-0.5 rounded-lg border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] text-sm sm:text-base ml-1 tracking-wider"
+                      >
+                        2x ACTIVE!
+                      </motion.span>
+                    )}
+                  </AnimatePresence>
+                </motion.div>
+                {game.mode === 'timeAttack' ? (
+                  <div className={`font-comic text-xl sm:text-2xl comic-text tabular-nums ${game.timeLeft <= CLOCK_WARNING_MS ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+                    TIME: {formatClock(game.timeLeft)}
+                  </div>
+                ) : game.mode === 'zen' ? (
+                  <button
+                    onClick={finishSession}
+                    disabled={!canPlay}
+                    className="font-comic text-lg bg-white text-black px-3 py-0.5 rounded-full comic-border hover:bg-gray-100 transition-all disabled:opacity-40"
+                  >
+                    FINISH
+                  </button>
+                ) : (
+                  <div className={`font-comic text-xl sm:text-2xl comic-text ${moves <= 5 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+                    {game.mode === 'versus' ? 'TURNS' : 'MOVES'}: {moves}
+                  </div>
+                )}
+              </div>
+            )}
+            {showHud && (
+              <div className="w-full mt-3">
+                <div className="relative h-6 bg-white comic-border rounded-full overflow-hidden shadow-[inset_0_2px_4px_rgba(0,0,0,0.2)]">
+                  <motion.div 
+                    className="h-full bg-gradient-to-r from-[#ff3366] via-[#ffcc00] to-[#33ff33]"
+                    initial={{ width: 0 }}
+                    animate={{ 
+                      width: `${comboMeter}%`,
+                      filter: comboMeter > 70 ? ['brightness(1)', 'brightness(1.3)', 'brightness(1)'] : 'brightness(1)'
+                    }}
+                    transition={{ 
+                      width: { type: 'spring', stiffness: 50, damping: 10 },
+                      filter: { repeat: Infinity, duration: 0.5 }
+                    }}
+                  />
+                  <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                    <span className="font-comic text-[10px] sm:text-xs text-black font-bold uppercase tracking-widest drop-shadow-[0_1px_0_rgba(255,255,255,0.5)]">
+                      COMBO METER {combo > 1 ? `(${combo}X)` : ''}
+                    </span>
+                  </div>
+                </div>
               </div>
             )}
           </div>
-          {gameState !== 'home' && (
-            <div className="flex gap-4 mt-2 items-center">
-              <motion.div 
-                animate={multiplierTurns > 0 ? {
-                  textShadow: ['0px 0px 0px rgba(255,204,0,0)', '0px 0px 10px rgba(255,204,0,1)', '0px 0px 0px rgba(255,204,0,0)']
-                } : {}}
-                transition={{ repeat: Infinity, duration: 1 }}
-                className="font-comic text-xl sm:text-2xl text-white comic-text flex items-center gap-2"
-              >
-                SCORE: 
-                <motion.span
-                  key={score}
-                  initial={{ scale: 1.5, color: multiplierTurns > 0 ? '#ffcc00' : '#ffffff' }}
-                  animate={{ scale: 1, color: '#ffffff' }}
-                  transition={{ type: 'spring', stiffness: 300, damping: 15 }}
+
+          {showHud && (
+            <div className="flex flex-col gap-2 items-end">
+              {/* Controls */}
+              <div className="flex items-center gap-2 bg-white/90 p-1.5 comic-border rounded-lg shadow-sm transform -rotate-1">
+                <button 
+                  onClick={playtest ? backToEditor : goToHome}
+                  className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  title={playtest ? 'Back to editor' : 'Home'}
                 >
-                  {score}
-                </motion.span>
-                <AnimatePresence>
-                  {multiplierTurns > 0 && (
-                    <motion.span 
-                      initial={{ scale: 0, opacity: 0, rotate: -10 }}
-                      animate={{ scale: [1, 1.1, 1], opacity: 1, rotate: [-5, 5, -5] }}
-                      exit={{ scale: 0, opacity: 0 }}
-                      transition={{ repeat: Infinity, duration: 0.8 }}
-                      className="bg-[#ffcc00] text-black px-2 py-0.5 rounded-lg border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] text-sm sm:text-base ml-1 tracking-wider"
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><path d="m3 9 9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/><polyline points="9 22 9 12 15 12 15 22"/></svg>
+                </button>
+                <div className="w-px h-4 bg-gray-300 mx-0.5" />
+                {screen === 'game' && (
+                  <>
+                    <button 
+                      onClick={undo}
+                      disabled={!canUndo}
+                      className="p-1 hover:bg-gray-100 rounded transition-colors relative disabled:opacity-40"
+                      title={`Undo (${undosLeft} left)`}
                     >
-                      2x ACTIVE!
-                    </motion.span>
+                      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></svg>
+                      <span className="absolute -top-1.5 -right-1.5 bg-[#ffcc00] border border-black rounded-full w-4 h-4 font-comic text-[10px] leading-none flex items-center justify-center">{undosLeft}</span>
+                    </button>
+                    <div className="w-px h-4 bg-gray-300 mx-0.5" />
+                    <button 
+                      onClick={showHint}
+                      disabled={!canPlay || hintsLeft === 0 || !!hint}
+                      className="p-1 hover:bg-gray-100 rounded transition-colors relative disabled:opacity-40"
+                      title={`Hint (${hintsLeft} left)`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><path d="M9 18h6"/><path d="M10 22h4"/><path d="M15.09 14c.18-.98.65-1.74 1.41-2.5A4.65 4.65 0 0 0 18 8 6 6 0 0 0 6 8c0 1 .23 2.23 1.5 3.5A4.61 4.61 0 0 1 8.91 14"/></svg>
+                      <span className="absolute -top-1.5 -right-1.5 bg-[#ffcc00] border border-black rounded-full w-4 h-4 font-comic text-[10px] leading-none flex items-center justify-center">{hintsLeft}</span>
+                    </button>
+                    <div className="w-px h-4 bg-gray-300 mx-0.5" />
+                    <button 
+                      onClick={toggleAutoplay}
+                      disabled={!botAllowed}
+                      className={`p-1 rounded transition-colors disabled:opacity-40 ${autoplay ? 'bg-[#33ccff]' : 'hover:bg-gray-100'}`}
+                      title={autoplay ? 'Stop autoplay' : 'Autoplay'}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className={autoplay ? 'text-black animate-pulse' : 'text-gray-700'}><rect x="3" y="11" width="18" height="10" rx="2"/><circle cx="12" cy="5" r="2"/><path d="M12 7v4"/><line x1="8" y1="16" x2="8" y2="16"/><line x1="16" y1="16" x2="16" y2="16"/></svg>
+                    </button>
+                    <div className="w-px h-4 bg-gray-300 mx-0.5" />
+                  </>
+                )}
+                <button 
+                  onClick={() => updateSettings({ muted: !settings.muted })}
+                  className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  title={settings.muted ? "Unmute" : "Mute"}
+                >
+                  {settings.muted ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-red-500"><path d="M11 5L6 9H2v6h4l5 4V5z"/><line x1="23" y1="9" x2="17" y2="15"/><line x1="17" y1="9" x2="23" y2="15"/></svg>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><path d="M11 5L6 9H2v6h4l5 4V5z"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"/></svg>
                   )}
-                </AnimatePresence>
-              </motion.div>
-              <div className={`font-comic text-xl sm:text-2xl comic-text ${moves <= 5 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
-                MOVES: {moves}
+                </button>
+                <button 
+                  onClick={openSettings}
+                  className="p-1 hover:bg-gray-100 rounded transition-colors"
+                  title="Settings"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09a1.65 1.65 0 0 0-1-1.51 1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09a1.65 1.65 0 0 0 1.51-1 1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"/></svg>
+                </button>
               </div>
-            </div>
-          )}
-          {gameState !== 'home' && (
-            <div className="w-full mt-3">
-              <div className="relative h-6 bg-white comic-border rounded-full overflow-hidden shadow-[inset_0_2px_4px_rgba(0,0,0,0.2)]">
-                <motion.div 
-                  className="h-full bg-gradient-to-r from-[#ff3366] via-[#ffcc00] to-[#33ff33]"
-                  initial={{ width: 0 }}
-                  animate={{ 
-                    width: `${comboMeter}%`,
-                    filter: comboMeter > 70 ? ['brightness(1)', 'brightness(1.3)', 'brightness(1)'] : 'brightness(1)'
-                  }}
-                  transition={{ 
-                    width: { type: 'spring', stiffness: 50, damping: 10 },
-                    filter: { repeat: Infinity, duration: 0.5 }
-                  }}
-                />
-                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                  <span className="font-comic text-[10px] sm:text-xs text-black font-bold uppercase tracking-widest drop-shadow-[0_1px_0_rgba(255,255,255,0.5)]">
-                    COMBO METER {combo > 1 ? `(${combo}X)` : ''}
-                  </span>
+
+              {/* Targets */}
+              {(game.mode !== 'versus' || isTargetRace(game)) && (
+                <div className="flex items-center gap-3 bg-white p-2 sm:p-3 comic-border rounded-xl transform rotate-1 shadow-lg min-w-[140px] justify-center">
+                  <div className="absolute -top-3 left-2 bg-black text-white text-[10px] px-2 py-0.5 rounded font-comic uppercase tracking-tighter">
+                    {game.mode === 'versus' ? `P${game.turn + 1} Targets` : hasMoveLimit(game.mode) ? 'Targets' : 'Best'}
+                  </div>
+                  {!hasMoveLimit(game.mode) && (
+                    <span className="font-comic text-lg sm:text-xl leading-none">{Math.max(modeBest, score)}</span>
+                  )}
+                  {Object.entries(targets).map(([color, count]) => {
+                    const isCompleted = count === 0;
+                    return (
+                      <div key={color} className="flex flex-col items-center relative">
+                        <motion.div 
+                          animate={isCompleted ? { scale: [1, 1.2, 1] } : {}}
+                          className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full border-2 border-black flex items-center justify-center ${colors[color as BallColor]} ${isCompleted ? 'opacity-40' : 'shadow-sm'}`} 
+                        >
+                          {settings.glyphs && <ColorGlyph color={color as BallColor} className="w-3 h-3 sm:w-3.5 sm:h-3.5" />}
+                        </motion.div>
+                        <span className={`font-comic text-lg sm:text-xl leading-none mt-1 ${isCompleted ? 'text-green-500 font-bold' : 'text-black'}`}>
+                          {isCompleted ? '✓' : count}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  {game.goals.map((goal) => {
+                    const isCompleted = isGoalMet(game, goal);
+                    return (
+                      <div key={goal.type} className="flex flex-col items-center relative">
+                        <div className={`h-5 sm:h-6 px-1 rounded-full border-2 border-black bg-gray-100 flex items-center font-comic text-xs sm:text-sm leading-none ${isCompleted ? 'opacity-40' : ''}`}>
+                          {GOAL_LABELS[goal.type]}
+                        </div>
+                        <span className={`font-comic text-lg sm:text-xl leading-none mt-1 ${isCompleted ? 'text-green-500 font-bold' : 'text-black'}`}>
+                          {isCompleted ? '✓' : goalProgress(goal)}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
-              </div>
+              )}
             </div>
           )}
         </div>
 
-        {gameState !== 'home' && (
-          <div className="flex flex-col gap-2 items-end">
-            {/* Controls */}
-            <div className="flex items-center gap-2 bg-white/90 p-1.5 comic-border rounded-lg shadow-sm transform -rotate-1">
-              <button 
-                onClick={goToHome}
-                className="p-1 hover:bg-gray-100 rounded transition-colors"
-                title="Home"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><path d="m3 9 9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/><polyline points="9 22 9 12 15 12 15 22"/></svg>
-              </button>
-              <div className="w-px h-4 bg-gray-300 mx-0.5" />
-              <button 
-                onClick={handleToggleMute}
-                className="p-1 hover:bg-gray-100 rounded transition-colors"
-                title={muted ? "Unmute" : "Mute"}
+        {/* Versus turn banner and scoreboard */}
+        {showHud && game.mode === 'versus' && (
+          <div className="w-full max-w-md mb-3 flex flex-col gap-2 z-10">
+            {game.status === 'playing' && (
+              <motion.div
+                key={game.turn}
+                initial={{ scale: 0.6, opacity: 0, rotate: -6 }}
+                animate={{ scale: 1, opacity: 1, rotate: -1 }}
+                transition={{ type: 'spring', stiffness: 300, damping: 15 }}
+                className="comic-border rounded-xl py-1 text-center font-comic text-2xl sm:text-3xl comic-text text-white"
+                style={{ backgroundColor: PLAYER_COLORS[game.turn] }}
               >
-                {muted ? (
-                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-red-500"><path d="M11 5L6 9H2v6h4l5 4V5z"/><line x1="23" y1="9" x2="17" y2="15"/><line x1="17" y1="9" x2="23" y2="15"/></svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" className="text-gray-700"><path d="M11 5L6 9H2v6h4l5 4V5z"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"/></svg>
-                )}
-              </button>
+                PLAYER {game.turn + 1}'S TURN
+              </motion.div>
+            )}
+            <div className="flex gap-2">
+              {game.players.map((player, i) => (
+                <div
+                  key={i}
+                  className={`flex-1 bg-white comic-border rounded-lg px-2 py-0.5 flex items-center justify-between font-comic transition-opacity ${i === game.turn ? '' : 'opacity-60'}`}
+                >
+                  <span className="w-4 h-4 rounded-full border-2 border-black" style={{ backgroundColor: PLAYER_COLORS[i] }} />
+                  <span className="flex flex-col items-end leading-none">
+                    <span className="text-lg">{player.score}</span>
+                    {isTargetRace(game) && (
+                      <span className="text-[10px] text-gray-500">
+                        {targetsLeft(player.targets)} LEFT
+                      </span>
+                    )}
+                  </span>
+                </div>
+              ))}
             </div>
+          </div>
+        )}
 
-            {/* Targets */}
-            <div className="flex items-center gap-3 bg-white p-2 sm:p-3 comic-border rounded-xl transform rotate-1 shadow-lg min-w-[140px] justify-center">
-              <div className="absolute -top-3 left-2 bg-black text-white text-[10px] px-2 py-0.5 rounded font-comic uppercase tracking-tighter">
-                Targets
+        {/* Race standings */}
+        {showHud && game.mode === 'race' && race && (
+          <div className="w-full max-w-md mb-3 flex flex-col gap-1 z-10">
+            {raceStatus === 'connecting' && (
+              <div className="bg-[#ff3366] text-white comic-border rounded-xl py-0.5 text-center font-comic text-xl animate-pulse">
+                RECONNECTING...
               </div>
-              {Object.entries(targets).map(([color, count]) => {
-                const isCompleted = count === 0;
-                return (
-                  <div key={color} className="flex flex-col items-center relative">
-                    <motion.div 
-                      animate={isCompleted ? { scale: [1, 1.2, 1] } : {}}
-                      className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full border-2 border-black ${COLOR_CLASSES[color as BallColor]} ${isCompleted ? 'opacity-40' : 'shadow-sm'}`} 
-                    />
-                    <span className={`font-comic text-lg sm:text-xl leading-none mt-1 ${isCompleted ? 'text-green-500 font-bold' : 'text-black'}`}>
-                      {isCompleted ? '✓' : count}
-                    </span>
-                  </div>
-                );
-              })}
-            </div>
+            )}
+            <RaceStandings room={race} you={raceYou} compact />
           </div>
         )}
-      </div>
 
-      {/* Game Board or Home Screen */}
-      <div className="flex-1 flex flex-col items-center justify-center w-full">
-        {gameState === 'home' ? (
-          <motion.div 
-            initial={{ scale: 0.9, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            className="bg-white p-6 sm:p-8 rounded-3xl comic-border max-w-sm w-full text-center flex flex-col items-center z-10"
-          >
-            <div className="relative mb-8">
-            <div className="absolute -top-10 -left-10 w-20 h-20 bg-[#ff3366] rounded-full comic-border transform -rotate-12 flex items-center justify-center">
-              <span className="font-comic text-white text-2xl comic-text">POP!</span>
-            </div>
-            <div className="absolute -bottom-10 -right-10 w-24 h-24 bg-[#ffcc00] rounded-full comic-border transform rotate-12 flex items-center justify-center">
-              <span className="font-comic text-white text-2xl comic-text">MATCH!</span>
+        {/* Game Board or Home Screen */}
+        <div className="flex-1 flex flex-col items-center justify-center w-full">
+          {gameState === 'home' ? (
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              className="bg-white p-6 sm:p-8 rounded-3xl comic-border max-w-sm w-full text-center flex flex-col items-center z-10"
+            >
+              <div className="relative mb-8">
+              <div className="absolute -top-10 -left-10 w-20 h-20 bg-[#ff3366] rounded-full comic-border transform -rotate-12 flex items-center justify-center">
+                <span className="font-comic text-white text-2xl comic-text">POP!</span>
+              </div>
+              <div className="absolute -bottom-10 -right-10 w-24 h-24 bg-[#ffcc00] rounded-full comic-border transform rotate-12 flex items-center justify-center">
+                <span className="font-comic text-white text-2xl comic-text">MATCH!</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 p-4 bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300">
+                {['red', 'blue', 'yellow', 'green', 'purple', 'red'].map((c, i) => (
+                  <div key={i} className={`w-10 h-10 rounded-full border-2 border-black flex items-center justify-center ${colors[c as BallColor]} shadow-md`}>
+                    {settings.glyphs && <ColorGlyph color={c as BallColor} />}
+                  </div>
+                ))}
+              </div>
             </div>
-            <div className="grid grid-cols-3 gap-2 p-4 bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300">
-              {['red', 'blue', 'yellow', 'green', 'purple', 'red'].map((c, i) => (
-                <div key={i} className={`w-10 h-10 rounded-full border-2 border-black ${COLOR_CLASSES[c as BallColor]} shadow-md`} />
-              ))}
+
+            <h2 className="font-comic text-4xl mb-6 comic-text text-black uppercase">READY TO POP?</h2>
+            
+            <div className="space-y-4 mb-8 text-left w-full">
+              <div className="flex items-center gap-3">
+                <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center text-white font-bold text-xs">1</div>
+                <p className="font-comic text-lg">Connect 3+ same colors</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center text-white font-bold text-xs">2</div>
+                <p className="font-comic text-lg">Reach targets before moves end</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center text-white font-bold text-xs">3</div>
+                <p className="font-comic text-lg">Connect 6+ for BIG BONUS!</p>
+              </div>
             </div>
-          </div>
 
-          <h2 className="font-comic text-4xl mb-2 comic-text text-black uppercase">READY TO POP?</h2>
-          <div className="bg-gray-100 px-4 py-1 rounded-full comic-border mb-6">
-            <span className="font-comic text-xl text-gray-600">CURRENT LEVEL: {level + 1}</span>
-          </div>
-          
-          <div className="space-y-4 mb-8 text-left w-full">
-            <div className="flex items-center gap-3">
-              <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center text-white font-bold text-xs">1</div>
-              <p className="font-comic text-lg">Connect 3+ same colors</p>
+            {savedGame && (
+              <button 
+                onClick={continueGame}
+                className="bg-[#33ff33] text-black font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#66ff66] hover:-translate-y-1 active:translate-y-1 transition-all w-full mb-4 flex flex-col items-center leading-none"
+              >
+                CONTINUE
+                <span className="text-base text-gray-700 mt-1">
+                  {savedGame.game.mode === 'zen' || savedGame.game.mode === 'daily'
+                    ? savedGame.game.mode.toUpperCase()
+                    : `${savedGame.game.mode === 'endless' ? 'ENDLESS ' : ''}LVL ${savedGame.game.level + 1}`} · {savedGame.game.score} PTS
+                </span>
+              </button>
+            )}
+            <button 
+              onClick={() => startCampaign(nextCampaignLevel)}
+              className="bg-[#ffcc00] text-black font-comic text-4xl py-4 px-12 rounded-full comic-border hover:bg-[#ffe066] hover:-translate-y-1 active:translate-y-1 transition-all w-full mb-6"
+            >
+              PLAY LVL {nextCampaignLevel + 1}
+            </button>
+            <LevelMap progress={progress} onSelect={startCampaign} />
+            <button 
+              onClick={dailyResult ? () => shareDaily(dailyResult) : startDaily}
+              disabled={dailyPlayed && !dailyResult && !dailySaved}
+              className="bg-[#33ff33] text-black font-comic text-2xl py-2 px-4 rounded-2xl comic-border hover:bg-[#66ff66] transition-all w-full mb-3 flex flex-col items-center leading-none disabled:opacity-50"
+            >
+              {dailyResult ? (dailyCopied ? 'COPIED!' : 'SHARE DAILY') : 'DAILY CHALLENGE'}
+              <span className="text-xs mt-1 opacity-80">
+                {dailyResult ? `${dailyResult.score} PTS` : dailySaved ? 'RESUME' : dailyPlayed ? 'PLAYED TODAY' : today} · STREAK {dailyStreak(daily, today)}
+              </span>
+            </button>
+            <div className="grid grid-cols-3 gap-2 w-full">
+              {SCORE_MODE_BUTTONS.map(({ mode, className }) => (
+                <button 
+                  key={mode}
+                  onClick={() => startMode(mode)}
+                  className={`${className} font-comic text-lg py-2 px-2 rounded-2xl comic-border transition-all flex flex-col items-center leading-none`}
+                >
+                  {MODE_LABELS[mode].toUpperCase()}
+                  <span className="text-xs mt-1 opacity-80">BEST {modeBests[mode] ?? 0}</span>
+                </button>
+              ))}
             </div>
-            <div className="flex items-center gap-3">
-              <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center text-white font-bold text-xs">2</div>
-              <p className="font-comic text-lg">Reach targets before moves end</p>
+            <div className="flex gap-3 w-full mt-3">
+              <button 
+                onClick={openVersusSetup}
+                className="flex-1 bg-[#ff3366] text-white font-comic text-xl py-1 px-4 rounded-full comic-border hover:bg-[#ff6688] transition-all"
+              >
+                VERSUS
+              </button>
+              <button 
+                onClick={openRace}
+                className="flex-1 bg-[#33ccff] text-black font-comic text-xl py-1 px-4 rounded-full comic-border hover:bg-[#66d9ff] transition-all"
+              >
+                {raceSession ? `REJOIN ${raceSession.room}` : 'RACE ONLINE'}
+              </button>
             </div>
-            <div className="flex items-center gap-3">
-              <div className="w-6 h-6 rounded-full bg-green-500 flex items-center justify-center text-white font-bold text-xs">3</div>
-              <p className="font-comic text-lg">Connect 6+ for BIG BONUS!</p>
+            <div className="flex gap-3 w-full mt-3">
+              <button 
+                onClick={openEditor}
+                className="flex-1 bg-white text-black font-comic text-xl py-1 px-4 rounded-full comic-border hover:bg-gray-100 transition-all"
+              >
+                EDITOR
+              </button>
+              <button 
+                onClick={openSettings}
+                className="flex-1 bg-white text-black font-comic text-xl py-1 px-4 rounded-full comic-border hover:bg-gray-100 transition-all"
+              >
+                SETTINGS
+              </button>
             </div>
-          </div>
-
-          <button 
-            onClick={startGame}
-            className="bg-[#ffcc00] text-black font-comic text-4xl py-4 px-12 rounded-full comic-border hover:bg-[#ffe066] hover:-translate-y-1 active:translate-y-1 transition-all w-full"
-          >
-            START GAME
-          </button>
-        </motion.div>
-      ) : (
-        <motion.div 
-          animate={shake ? { x: [-5, 5, -5, 5, 0] } : {}}
-          transition={{ duration: 0.3 }}
-          className="bg-white p-2 sm:p-3 comic-border rounded-2xl relative touch-none z-10"
-          ref={gridRef}
-          onPointerMove={handlePointerMove}
-        >
-          <div 
-            className="grid gap-1 sm:gap-2"
-            style={{ 
-              gridTemplateColumns: `repeat(${COLS}, minmax(0, 1fr))`,
-              gridTemplateRows: `repeat(${ROWS}, minmax(0, 1fr))`
-            }}
+          </motion.div>
+        ) : screen === 'race' ? (
+          <RaceLobby
+            room={race}
+            you={raceYou}
+            status={raceStatus}
+            error={raceError}
+            playerName={playerName}
+            onJoin={joinRace}
+            onReady={setRaceReady}
+            onLeave={goToHome}
+          />
+        ) : screen === 'editor' ? (
+          <LevelEditor level={editorLevel} onChange={setEditorLevel} onPlayTest={playTestLevel} onExit={goToHome} palette={settings.palette} />
+        ) : (
+          <motion.div 
+            animate={shake ? { x: [-5, 5, -5, 5, 0] } : {}}
+            transition={{ duration: 0.3 }}
+            className="bg-white p-2 sm:p-3 comic-border rounded-2xl relative touch-none z-10"
+            ref={gridRef}
+            onPointerMove={handlePointerMove}
           >
-            {grid.map((row, r) => 
-              row.map((ball, c) => (
-                <div 
-                  key={`${r}-${c}`}
-                  data-row={r}
-                  data-col={c}
-                  onPointerDown={(e) => handlePointerDown(r, c, e)}
-                  className="w-12 h-12 sm:w-14 sm:h-14 relative flex items-center justify-center touch-none"
-                >
-                  <div className="absolute inset-0 bg-gray-100 rounded-lg border-2 border-gray-200 opacity-50 pointer-events-none" />
-                  
-                  <AnimatePresence mode="popLayout">
-                    {ball && (
-                      <motion.div
-                        key={ball.id}
-                        layout
-                        initial={{ scale: 0, y: -50 }}
-                        animate={{ scale: 1, y: 0 }}
-                        exit={{ 
-                          scale: [1, 1.2, 0], 
-                          rotate: [0, 15, -15, 0],
-                          opacity: [1, 1, 0],
-                          transition: { type: 'keyframes', duration: 0.3 }
-                        }}
-                        transition={{ 
-                          type: 'spring', 
-                          stiffness: 300, 
-                          damping: 25
-                        }}
-                        className={`
-                          absolute inset-1 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
-                          ${ball.color === 'special' ? 'rounded-lg rotate-45 border-[3px]' : 'rounded-full border-[3px]'}
-                          ${COLOR_CLASSES[ball.color]}
-                          ${isSelected(r, c) ? 'scale-110 z-10 brightness-110' : 'hover:brightness-110'}
-                          cursor-pointer transition-all duration-100 pointer-events-none
-                          ${(ball.color === 'rainbow' || ball.color === 'special') ? 'animate-pulse' : ''}
-                          ${isDragging && isAdjacentToLast(r, c) && (ball.color === 'rainbow' || ball.color === 'special' || !chainColor || ball.color === chainColor) ? 'ring-4 ring-white ring-opacity-70 scale-105' : ''}
-                        `}
-                      >
-                        {ball.color === 'special' && (
-                          <div className="absolute inset-0 flex items-center justify-center -rotate-45">
-                            <svg viewBox="0 0 24 24" fill="white" className="w-8 h-8 drop-shadow-[0_0_5px_rgba(255,255,255,0.8)]">
-                              <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
-                            </svg>
-                          </div>
-                        )}
-                        {ball.color === 'rainbow' && (
-                          <div className="absolute inset-0 flex items-center justify-center">
-                            <div className="w-3/4 h-3/4 border-2 border-white/50 rounded-full animate-spin-slow" />
-                          </div>
-                        )}
-                        
-                        {/* Powerup Indicators */}
-                        {ball.powerup === 'moves' && (
-                          <div className="absolute inset-0 flex items-center justify-center">
-                            <span className="font-comic text-white text-xl drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">+3</span>
-                          </div>
-                        )}
-                        {ball.powerup === 'multiplier' && (
-                          <div className="absolute inset-0 flex items-center justify-center">
-                            <span className="font-comic text-white text-xl drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">2x</span>
-                          </div>
-                        )}
-                        {ball.powerup === 'bomb' && (
-                          <div className="absolute inset-0 flex items-center justify-center">
-                            <svg viewBox="0 0 24 24" fill="black" className="w-6 h-6 drop-shadow-[0_0_2px_rgba(255,255,255,0.8)]">
-                              <path d="M11.25 2.25A.75.75 0 0 0 10.5 3v1.5a.75.75 0 0 0 1.5 0V3a.75.75 0 0 0-.75-.75ZM15.864 4.575a.75.75 0 0 0-1.06-1.06l-1.06 1.06a.75.75 0 0 0 1.06 1.06l1.06-1.06ZM7.076 5.635a.75.75 0 0 0 1.06-1.06l-1.06-1.06a.75.75 0 0 0-1.06 1.06l1.06 1.06ZM11.25 7.5a6.75 6.75 0 1 0 0 13.5 6.75 6.75 0 0 0 0-13.5ZM9 12.75a2.25 2.25 0 1 1 4.5 0 2.25 2.25 0 0 1-4.5 0Z" />
-                            </svg>
-                          </div>
-                        )}
-
-                        <div className="absolute top-1 left-1 w-3 h-3 bg-white rounded-full opacity-50" />
-                        
-                        {isSelected(r, c) && (
-                          <div className="absolute inset-0 flex items-center justify-center font-comic text-white text-xl comic-text">
-                            {getSelectionIndex(r, c) + 1}
-                          </div>
+            <div 
+              className={`grid gap-1 sm:gap-2 ${isHex ? 'pr-[1.625rem] sm:pr-8' : ''}`}
+              style={{ 
+                gridTemplateColumns: `repeat(${grid[0].length}, minmax(0, 1fr))`,
+                gridTemplateRows: `repeat(${grid.length}, minmax(0, 1fr))`
+              }}
+            >
+              {shownGrid.map((row, r) => 
+                row.map((ball, c) => {
+                  const tile = game.tiles[r][c];
+                  const shift = isHex && r % 2 === 1 ? HEX_ROW_SHIFT : '';
+                  if (tile.kind === 'hole') {
+                    return <div key={`${r}-${c}`} data-row={r} data-col={c} className={`w-12 h-12 sm:w-14 sm:h-14 ${shift}`} />;
+                  }
+                  return (
+                    <div 
+                      key={`${r}-${c}`}
+                      data-row={r}
+                      data-col={c}
+                      onPointerDown={(e) => handlePointerDown(r, c, e)}
+                      className={`w-12 h-12 sm:w-14 sm:h-14 relative flex items-center justify-center touch-none ${shift}`}
+                    >
+                      <div className={`absolute inset-0 bg-gray-100 border-2 border-gray-200 opacity-50 pointer-events-none ${isHex ? 'rounded-full' : 'rounded-lg'}`} />
+                      {cursor?.r === r && cursor.c === c && (
+                        <div className="absolute -inset-1 rounded-xl border-4 border-dashed border-black pointer-events-none z-20" />
+                      )}
+                      {tile.kind === 'stone' && (
+                        <div className="absolute inset-0.5 rounded-lg border-[3px] border-black bg-gradient-to-br from-gray-400 to-gray-600 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] pointer-events-none">
+                          <div className="absolute top-2 left-2 w-3 h-1 bg-gray-300 rounded-full rotate-12" />
+                          <div className="absolute bottom-3 right-2 w-4 h-1 bg-gray-700 rounded-full -rotate-12" />
+                        </div>
+                      )}
+                      
+                      <AnimatePresence mode="popLayout">
+                        {ball && (
+                          <motion.div
+                            key={ball.id}
+                            layout
+                            initial={{ scale: 0, y: -50 }}
+                            animate={{ scale: 1, y: 0 }}
+                            exit={{ 
+                              scale: [1, 1.2, 0], 
+                              rotate: [0, 15, -15, 0],
+                              opacity: [1, 1, 0],
+                              transition: { type: 'keyframes', duration: 0.3 }
+                            }}
+                            transition={{ 
+                              type: 'spring', 
+                              stiffness: 300, 
+                              damping: 25
+                            }}
+                            className={`
+                              absolute inset-1 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
+                              ${ball.color === 'special' ? 'rounded-lg rotate-45 border-[3px]' : ball.color === 'item' ? 'rounded-md border-[3px]' : 'rounded-full border-[3px]'}
+                              ${colors[ball.color]}
+                              ${isSelected(r, c) ? 'scale-110 z-10 brightness-110' : getHintIndex(r, c) >= 0 ? 'scale-110 z-10 brightness-110 animate-pulse' : 'hover:brightness-110'}
+                              cursor-pointer transition-all duration-100 pointer-events-none
+                              ${(ball.color === 'rainbow' || ball.color === 'special') ? 'animate-pulse' : ''}
+                              ${linking && isAdjacentToLast(r, c) && !isFixed(tile) && canConnect(ball, chainColor) ? 'ring-4 ring-white ring-opacity-70 scale-105' : ''}
+                            `}
+                          >
+                            {ball.color === 'special' && (
+                              <div className="absolute inset-0 flex items-center justify-center -rotate-45">
+                                <svg viewBox="0 0 24 24" fill="white" className="w-8 h-8 drop-shadow-[0_0_5px_rgba(255,255,255,0.8)]">
+                                  <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+                                </svg>
+                              </div>
+                            )}
+                            {ball.color === 'item' && (
+                              <div className="absolute inset-0 flex items-center justify-center">
+                                <svg viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3.5" strokeLinecap="round" strokeLinejoin="round" className="w-7 h-7 drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">
+                                  <path d="M12 4v14M6 12l6 6 6-6" />
+                                </svg>
+                              </div>
+                            )}
+                            {settings.glyphs && (
+                              <div className={`absolute flex items-center justify-center ${ball.powerup ? '-top-1 -left-1' : 'inset-0'}`}>
+                                <ColorGlyph color={ball.color} className={ball.powerup ? 'w-3.5 h-3.5' : 'w-5 h-5'} />
+                              </div>
+                            )}
+                            {ball.color === 'rainbow' && (
+                              <div className="absolute inset-0 flex items-center justify-center">
+                                <div className="w-3/4 h-3/4 border-2 border-white/50 rounded-full animate-spin-slow" />
+                              </div>
+                            )}
+                            
+                            {/* Powerup Indicators */}
+                            {ball.powerup && <PowerupIcon type={ball.powerup} />}
+
+                            <div className="absolute top-1 left-1 w-3 h-3 bg-white rounded-full opacity-50" />
+                            
+                            {(isSelected(r, c) || getHintIndex(r, c) >= 0) && (
+                              <div className="absolute inset-0 flex items-center justify-center font-comic text-white text-xl comic-text">
+                                {(isSelected(r, c) ? getSelectionIndex(r, c) : getHintIndex(r, c)) + 1}
+                              </div>
+                            )}
+                          </motion.div>
                         )}
-                      </motion.div>
-                    )}
-                  </AnimatePresence>
-                </div>
-              ))
-            )}
-          </div>
+                      </AnimatePresence>
+
+                      {tile.ice > 0 && (
+                        <div className={`absolute inset-0 rounded-lg border-2 border-white pointer-events-none z-20 flex items-end justify-end p-0.5 ${tile.ice > 1 ? 'bg-cyan-200/70' : 'bg-cyan-100/50'}`}>
+                          {tile.ice > 1 && <span className="font-comic text-sm text-cyan-900 leading-none">{tile.ice}</span>}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
 
-          {/* Effects Layer */}
-          <div className="absolute inset-0 pointer-events-none overflow-visible z-50">
-            <AnimatePresence>
-              {effects.map(effect => (
-                <motion.div
-                  key={effect.id}
-                  initial={{ scale: 0, opacity: 0, rotate: effect.rotation - 20 }}
-                  animate={{ 
-                    scale: effect.isBonus ? [0, 2 * effect.scale, 1.5 * effect.scale] : [0, 1.5 * effect.scale, 1.2 * effect.scale], 
-                    opacity: [0, 1, 1, 0], 
-                    rotate: effect.isBonus ? [effect.rotation, effect.rotation + 15, effect.rotation - 15, effect.rotation] : effect.rotation 
-                  }}
-                  transition={{ duration: 0.6, times: [0, 0.2, 0.8, 1] }}
-                  exit={{ opacity: 0 }}
-                  style={{ 
-                    position: 'absolute',
-                    left: effect.x,
-                    top: effect.y,
-                    transform: 'translate(-50%, -50%)',
-                  }}
-                  className="flex items-center justify-center"
-                >
-                  <svg width={effect.isBonus ? "240" : "140"} height={effect.isBonus ? "240" : "140"} viewBox="0 0 100 100" className="absolute">
-                    <path 
-                      d="M50 5 L62 38 L95 30 L78 52 L98 78 L65 70 L52 95 L38 70 L5 78 L25 52 L5 30 L38 38 Z" 
-                      fill={effect.color} 
-                      stroke="black" 
-                      strokeWidth="4"
-                    />
-                    {effect.isBonus && (
+            {/* Effects Layer */}
+            <div className="absolute inset-0 pointer-events-none overflow-visible z-50">
+              <AnimatePresence>
+                {effects.map(effect => (
+                  <motion.div
+                    key={effect.id}
+                    initial={{ scale: 0, opacity: 0, rotate: effect.rotation - 20 }}
+                    animate={{ 
+                      scale: effect.isBonus ? [0, 2 * effect.scale, 1.5 * effect.scale] : [0, 1.5 * effect.scale, 1.2 * effect.scale], 
+                      opacity: [0, 1, 1, 0], 
+                      rotate: effect.isBonus ? [effect.rotation, effect.rotation + 15, effect.rotation - 15, effect.rotation] : effect.rotation 
+                    }}
+                    transition={{ duration: 0.6, times: [0, 0.2, 0.8, 1] }}
+                    exit={{ opacity: 0 }}
+                    style={{ 
+                      position: 'absolute',
+                      left: effect.x,
+                      top: effect.y,
+                      transform: 'translate(-50%, -50%)',
+                    }}
+                    className="flex items-center justify-center"
+                  >
+                    <svg width={effect.isBonus ? "240" : "140"} height={effect.isBonus ? "240" : "140"} viewBox="0 0 100 100" className="absolute">
                       <path 
-                        d="M50 15 L58 42 L85 35 L72 52 L88 72 L62 65 L50 85 L38 65 L12 72 L28 52 L15 35 L42 42 Z" 
-                        fill="white" 
-                        fillOpacity="0.3" 
+                        d="M50 5 L62 38 L95 30 L78 52 L98 78 L65 70 L52 95 L38 70 L5 78 L25 52 L5 30 L38 38 Z" 
+                        fill={effect.color} 
+                        stroke="black" 
+                        strokeWidth="4"
                       />
-                    )}
-                  </svg>
-                  <span className={`font-comic ${effect.isBonus ? 'text-4xl' : 'text-3xl'} text-white comic-text relative z-10 whitespace-nowrap`}>
-                    {effect.text}
-                  </span>
-                </motion.div>
-              ))}
-            </AnimatePresence>
-          </div>
-
-          {/* Selection Status Overlay */}
-          {isDragging && (selection.length > 0) && (
-            <div className="absolute -bottom-12 left-0 right-0 flex justify-center pointer-events-none z-20">
-              <motion.div 
-                initial={{ y: -10, opacity: 0 }}
-                animate={{ y: 0, opacity: 1 }}
-                className={`
-                  px-4 py-1 rounded-full comic-border font-comic text-xl text-white comic-text shadow-lg
-                  ${isValidSelection ? 'bg-green-500' : 'bg-red-500'}
-                `}
-              >
-                {selection.length} {isValidSelection ? '✓' : `(Min ${MIN_MATCH})`}
-              </motion.div>
+                      {effect.isBonus && (
+                        <path 
+                          d="M50 15 L58 42 L85 35 L72 52 L88 72 L62 65 L50 85 L38 65 L12 72 L28 52 L15 35 L42 42 Z" 
+                          fill="white" 
+                          fillOpacity="0.3" 
+                        />
+                      )}
+                    </svg>
+                    <span className={`font-comic ${effect.isBonus ? 'text-4xl' : 'text-3xl'} text-white comic-text relative z-10 whitespace-nowrap`}>
+                      {effect.text}
+                    </span>
+                  </motion.div>
+                ))}
+              </AnimatePresence>
             </div>
-          )}
-        </motion.div>
-      )}
-      </div>
 
-      {/* Overlay Screens */}
-      <AnimatePresence>
-        {gameState !== 'playing' && gameState !== 'home' && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="absolute inset-0 bg-black/60 z-50 flex items-center justify-center backdrop-blur-sm p-4"
-          >
+            {/* Selection Status Overlay */}
+            {linking && (
+              <div className="absolute -bottom-12 left-0 right-0 flex justify-center pointer-events-none z-20">
+                <motion.div 
+                  initial={{ y: -10, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  className={`
+                    px-4 py-1 rounded-full comic-border font-comic text-xl text-white comic-text shadow-lg
+                    ${isValidSelection ? 'bg-green-500' : 'bg-red-500'}
+                  `}
+                >
+                  {selection.length} {isValidSelection ? '✓' : `(Min ${game.rules.minMatch})`}
+                </motion.div>
+              </div>
+            )}
+          </motion.div>
+        )}
+        {isReplay && replayTimeline && (
+          <ReplayControls
+            playing={replayPlaying}
+            speed={replaySpeed}
+            position={replayIndex}
+            total={replayTimeline.steps.length}
+            desynced={replayTimeline.desyncAt !== null && replayIndex >= replayTimeline.desyncAt}
+            onTogglePlay={() => {
+              initAudio();
+              setReplayPlaying((p) => !p);
+            }}
+            onStep={() => {
+              initAudio();
+              setReplayPlaying(false);
+              stepReplay(false);
+            }}
+            onRestart={restartReplay}
+            onSpeedChange={setReplaySpeed}
+            onExit={goToHome}
+          />
+        )}
+        </div>
+
+        {/* Overlay Screens */}
+        <AnimatePresence>
+          {screen === 'game' && (gameState !== 'playing' || raceOver) && (
             <motion.div 
-              initial={{ scale: 0.8, y: 50 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-white p-8 rounded-3xl comic-border max-w-sm w-full text-center flex flex-col items-center"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 bg-black/60 z-50 flex items-center justify-center backdrop-blur-sm p-4"
             >
-              {gameState === 'levelup' ? (
-                <>
-                  <h2 className="font-comic text-6xl comic-text mb-4 transform -rotate-2 text-blue-500">
-                    LEVEL UP!
-                  </h2>
-                  <div className="font-comic text-2xl mb-6">
-                    Level {level + 1} Complete!
-                  </div>
-                  <button 
-                    onClick={startNextLevel}
-                    className="bg-blue-500 text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-blue-600 hover:-translate-y-1 active:translate-y-1 transition-all"
-                  >
-                    NEXT LEVEL
-                  </button>
-                </>
-              ) : (
-                <>
-                  <h2 className={`font-comic text-6xl comic-text mb-4 transform -rotate-2 ${gameState === 'won' ? 'text-green-500' : 'text-red-500'}`}>
-                    {gameState === 'won' ? 'YOU WIN!' : 'GAME OVER'}
-                  </h2>
-                  <div className="font-comic text-2xl mb-6">
-                    Final Score: <span className="text-[#ffcc00] comic-text">{score}</span>
-                  </div>
-                  <div className="flex flex-col gap-3 w-full">
+              <motion.div 
+                initial={{ scale: 0.8, y: 50 }}
+                animate={{ scale: 1, y: 0 }}
+                className="bg-white p-8 rounded-3xl comic-border max-w-sm w-full text-center flex flex-col items-center"
+              >
+                {playtest ? (
+                  <>
+                    <h2 className={`font-comic text-6xl comic-text mb-4 transform -rotate-2 ${gameState === 'lost' ? 'text-red-500' : 'text-green-500'}`}>
+                      {gameState === 'lost' ? 'GAME OVER' : 'CLEARED!'}
+                    </h2>
+                    {stars > 0 && <div className="mb-4"><StarRating stars={stars} size="lg" /></div>}
+                    <div className="font-comic text-2xl mb-6">
+                      Score: <span className="text-[#ffcc00] comic-text">{score}</span> · Moves left: {moves}
+                    </div>
+                    <div className="flex flex-col gap-3 w-full">
+                      <button 
+                        onClick={() => playTestLevel(editorLevel)}
+                        className="bg-[#33ff33] text-black font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#66ff66] hover:-translate-y-1 active:translate-y-1 transition-all"
+                      >
+                        RETRY
+                      </button>
+                      <button 
+                        onClick={backToEditor}
+                        className="bg-gray-200 text-black font-comic text-2xl py-2 px-8 rounded-full comic-border hover:bg-gray-300 transition-all"
+                      >
+                        EDIT LEVEL
+                      </button>
+                    </div>
+                  </>
+                ) : gameState === 'levelup' ? (
+                  <>
+                    <h2 className="font-comic text-6xl comic-text mb-4 transform -rotate-2 text-blue-500">
+                      LEVEL UP!
+                    </h2>
+                    <div className="mb-4"><StarRating stars={stars} size="lg" /></div>
+                    <div className="font-comic text-2xl mb-2">
+                      Level {level + 1} Complete!
+                    </div>
+                    <div className="font-comic text-lg text-gray-500 mb-4 tracking-wider">
+                      SEED: {game.seed}
+                    </div>
+                    {isRanked && (
+                      <ScoreSubmission label="LEVEL" playerName={playerName} submission={submission} onSubmitName={handleSubmitName} />
+                    )}
                     <button 
-                      onClick={resetGame}
-                      className="bg-[#ff3366] text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#ff6688] hover:-translate-y-1 active:translate-y-1 transition-all"
+                      onClick={startNextLevel}
+                      className="bg-blue-500 text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-blue-600 hover:-translate-y-1 active:translate-y-1 transition-all"
                     >
-                      PLAY AGAIN
+                      NEXT LEVEL
                     </button>
-                    <button 
-                      onClick={goToHome}
-                      className="bg-gray-200 text-black font-comic text-2xl py-2 px-8 rounded-full comic-border hover:bg-gray-300 transition-all"
+                  </>
+                ) : game.mode === 'race' && race ? (
+                  <>
+                    <h2 className={`font-comic text-5xl comic-text mb-4 transform -rotate-2 ${raceWinner?.id === raceYou ? 'text-green-500' : 'text-[#33ccff]'}`}>
+                      {!raceOver
+                        ? gameState === 'won' ? 'FINISHED!' : 'OUT OF MOVES'
+                        : raceWinner ? (raceWinner.id === raceYou ? 'YOU WIN!' : `${raceWinner.name.toUpperCase()} WINS!`) : 'RACE OVER'}
+                    </h2>
+                    <div className="font-comic text-2xl mb-2">
+                      Score: <span className="text-[#ffcc00] comic-text">{score}</span>
+                    </div>
+                    {!raceOver && (
+                      <div className="font-comic text-lg text-gray-500 mb-2 tracking-wider animate-pulse">
+                        WAITING FOR THE OTHERS...
+                      </div>
+                    )}
+                    <div className="w-full mb-6">
+                      <RaceStandings room={race} you={raceYou} />
+                    </div>
+                    <div className="flex flex-col gap-3 w-full">
+                      {raceOver && (
+                        <button 
+                          onClick={rematchRace}
+                          disabled={raceStatus !== 'connected'}
+                          className="bg-[#ff3366] text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#ff6688] hover:-translate-y-1 active:translate-y-1 transition-all disabled:opacity-50"
+                        >
+                          REMATCH
+                        </button>
+                      )}
+                      <button 
+                        onClick={goToHome}
+                        className="bg-gray-200 text-black font-comic text-2xl py-2 px-8 rounded-full comic-border hover:bg-gray-300 transition-all"
+                      >
+                        LEAVE
+                      </button>
+                    </div>
+                  </>
+                ) : game.mode === 'versus' ? (
+                  <>
+                    <h2
+                      className="font-comic text-6xl comic-text mb-4 transform -rotate-2 text-white"
+                      style={{ color: winners.length === 1 ? PLAYER_COLORS[winners[0]] : undefined }}
                     >
-                      HOME
-                    </button>
-                  </div>
-                </>
-              )}
+                      {winners.length === 1 ? `PLAYER ${winners[0] + 1} WINS!` : 'DRAW!'}
+                    </h2>
+                    <div className="flex flex-col gap-2 w-full mb-6">
+                      {game.players
+                        .map((player, i) => ({ player, i }))
+                        .sort((a, b) => b.player.score - a.player.score)
+                        .map(({ player, i }) => (
+                          <div key={i} className={`flex items-center gap-3 font-comic text-2xl px-3 py-1 rounded-xl border-2 border-black ${winners.includes(i) ? 'bg-[#ffcc00]' : 'bg-gray-100'}`}>
+                            <span className="w-6 h-6 rounded-full border-2 border-black" style={{ backgroundColor: PLAYER_COLORS[i] }} />
+                            <span className="flex-1 text-left">PLAYER {i + 1}</span>
+                            <span>{player.score}</span>
+                          </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-col gap-3 w-full">
+                      <button 
+                        onClick={resetGame}
+                        className="bg-[#ff3366] text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#ff6688] hover:-translate-y-1 active:translate-y-1 transition-all"
+                      >
+                        REMATCH
+                      </button>
+                      <button 
+                        onClick={goToHome}
+                        className="bg-gray-200 text-black font-comic text-2xl py-2 px-8 rounded-full comic-border hover:bg-gray-300 transition-all"
+                      >
+                        HOME
+                      </button>
+                    </div>
+                  </>
+                ) : dailySummary ? (
+                  <>
+                    <h2 className={`font-comic text-6xl comic-text mb-4 transform -rotate-2 ${dailySummary.won ? 'text-green-500' : 'text-red-500'}`}>
+                      {dailySummary.won ? 'DAILY DONE!' : 'GAME OVER'}
+                    </h2>
+                    {stars > 0 && <div className="mb-4"><StarRating stars={stars} size="lg" /></div>}
+                    <div className="font-comic text-2xl mb-2">
+                      Final Score: <span className="text-[#ffcc00] comic-text">{score}</span>
+                    </div>
+                    <div className="font-comic text-lg text-gray-500 mb-4 tracking-wider">
+                      {dailySummary.chains.length} MOVES · LONGEST CHAIN {longestChain(dailySummary)} · STREAK {daily.streak}
+                    </div>
+                    <div className="flex flex-col gap-3 w-full">
+                      <button 
+                        onClick={() => shareDaily(dailySummary)}
+                        className="bg-[#ff3366] text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#ff6688] hover:-translate-y-1 active:translate-y-1 transition-all"
+                      >
+                        {dailyCopied ? 'COPIED!' : 'SHARE RESULT'}
+                      </button>
+                      <button 
+                        onClick={() => watchReplay(recording)}
+                        className="bg-[#33ccff] text-black font-comic text-xl py-2 px-4 rounded-full comic-border hover:bg-[#66d9ff] transition-all"
+                      >
+                        WATCH REPLAY
+                      </button>
+                      <button 
+                        onClick={goToHome}
+                        className="bg-gray-200 text-black font-comic text-2xl py-2 px-8 rounded-full comic-border hover:bg-gray-300 transition-all"
+                      >
+                        HOME
+                      </button>
+                    </div>
+                    <div className="font-comic text-sm text-gray-500 mt-4">A new board every day.</div>
+                  </>
+                ) : (
+                  <>
+                    <h2 className={`font-comic text-6xl comic-text mb-4 transform -rotate-2 ${gameState === 'won' ? 'text-green-500' : 'text-red-500'}`}>
+                      {game.mode === 'zen' ? 'ALL DONE!' : game.mode === 'timeAttack' ? "TIME'S UP!" : gameState === 'won' ? 'YOU WIN!' : 'GAME OVER'}
+                    </h2>
+                    {stars > 0 && <div className="mb-4"><StarRating stars={stars} size="lg" /></div>}
+                    <div className="font-comic text-2xl mb-2">
+                      Final Score: <span className="text-[#ffcc00] comic-text">{score}</span>
+                    </div>
+                    {isScoreMode(game.mode) && (
+                      <div className="font-comic text-xl mb-2">
+                        {!botAssisted && score > 0 && score >= modeBest ? <span className="text-[#ff3366]">NEW BEST!</span> : `Best: ${modeBest}`}
+                      </div>
+                    )}
+                    <div className="font-comic text-lg text-gray-500 mb-4 tracking-wider">
+                      SEED: {game.seed}
+                    </div>
+                    {isRanked && (
+                      <ScoreSubmission label="GLOBAL" playerName={playerName} submission={submission} onSubmitName={handleSubmitName} />
+                    )}
+                    <div className="flex flex-col gap-3 w-full">
+                      <button 
+                        onClick={resetGame}
+                        className="bg-[#ff3366] text-white font-comic text-3xl py-3 px-8 rounded-full comic-border hover:bg-[#ff6688] hover:-translate-y-1 active:translate-y-1 transition-all"
+                      >
+                        PLAY AGAIN
+                      </button>
+                      <div className="flex gap-3">
+                        <button 
+                          onClick={() => watchReplay(recording)}
+                          className="flex-1 bg-[#33ccff] text-black font-comic text-xl py-2 px-4 rounded-full comic-border hover:bg-[#66d9ff] transition-all"
+                        >
+                          WATCH REPLAY
+                        </button>
+                        <button 
+                          onClick={shareReplay}
+                          className="flex-1 bg-white text-black font-comic text-xl py-2 px-4 rounded-full comic-border hover:bg-gray-100 transition-all"
+                        >
+                          {replayCopied ? 'LINK COPIED!' : 'SHARE REPLAY'}
+                        </button>
+                      </div>
+                      <button 
+                        onClick={goToHome}
+                        className="bg-gray-200 text-black font-comic text-2xl py-2 px-8 rounded-full comic-border hover:bg-gray-300 transition-all"
+                      >
+                        HOME
+                      </button>
+                    </div>
+                  </>
+                )}
+              </motion.div>
             </motion.div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+          )}
+        </AnimatePresence>
 
-    </div>
+        <AnimatePresence>
+          {showSettings && (
+            <SettingsPanel settings={settings} onChange={updateSettings} onClose={() => setShowSettings(false)} />
+          )}
+          {showVersusSetup && (
+            <VersusSetup onStart={startVersus} onClose={() => setShowVersusSetup(false)} />
+          )}
+        </AnimatePresence>
+      </div>
+    </MotionConfig>
   );
 }
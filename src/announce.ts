@@ -0,0 +1,111 @@
+// Text for the screen-reader live region. Everything the board shows only as
+// color, animation or comic words gets a short spoken equivalent here.
+
+import { BasicColor, Cell, GameEvent, GameState, getChainColor, hasMoveLimit, versusWinners } from './game/engine';
+import { POWERUPS } from './game/powerups';
+import { COLOR_NAMES } from './theme';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+const playerName = (index: number) => `Player ${index + 1}`;
+
+export const describeCell = (state: GameState, { r, c }: Cell): string => {
+  const tile = state.tiles[r][c];
+  const ball = state.grid[r][c];
+  const parts = [`Row ${r + 1}, column ${c + 1}`];
+  if (tile.kind === 'stone') parts.push('stone');
+  else if (!ball) parts.push('empty');
+  else parts.push(COLOR_NAMES[ball.color] + (ball.powerup ? ` with ${POWERUPS[ball.powerup].name.toLowerCase()}` : ''));
+  if (tile.ice > 0) parts.push(`${tile.ice} ice`);
+  return parts.join(', ');
+};
+
+export const describeChain = (state: GameState, chain: Cell[]): string => {
+  if (chain.length === 0) return '';
+  const color = getChainColor(state.grid, chain);
+  const { minMatch } = state.rules;
+  const status = chain.length < minMatch ? `need ${minMatch}` : 'ready to pop';
+  return `${chain.length} ${color ? COLOR_NAMES[color] : 'wildcard'} linked, ${status}`;
+};
+
+export const describeMove = (before: GameState, chain: Cell[], after: GameState, events: GameEvent[]): string => {
+  const parts: string[] = [];
+  // In versus the board has already passed on; the mover's own results are filed with them.
+  const mover = after.mode === 'versus' ? after.players[before.turn] : after;
+  const popped = events.find((event) => event.type === 'pop' || event.type === 'bonus' || event.type === 'superBonus');
+  if (popped) parts.push(`Popped ${chain.length}, ${plural(mover.score - before.score, 'point')}`);
+
+  chain.forEach(({ r, c }) => {
+    const powerup = before.grid[r][c]?.powerup;
+    if (powerup) parts.push(`${POWERUPS[powerup].name} activated`);
+  });
+
+  events.forEach((event) => {
+    switch (event.type) {
+      case 'superBonus':
+        parts.push(event.addedMoves > 0 ? `Super bonus, ${plural(event.addedMoves, 'extra move')}` : 'Super bonus');
+        break;
+      case 'bonus':
+        parts.push('Bonus');
+        break;
+      case 'breakout':
+        parts.push(`Combo breakout, ${plural(event.points, 'point')}${event.moves > 0 ? ` and ${plural(event.moves, 'extra move')}` : ''}`);
+        break;
+      case 'cascade':
+        parts.push(`Cascade ${event.multiplier}x, ${plural(event.points, 'point')}`);
+        break;
+      case 'itemDropped':
+        parts.push('Item delivered');
+        break;
+      case 'timeBonus':
+        parts.push(`${plural(event.seconds, 'second')} added`);
+        break;
+      case 'reshuffle':
+        parts.push('No chains left, board reshuffled');
+        break;
+      case 'comboLost':
+        parts.push('Chain too short, combo lost');
+        break;
+    }
+  });
+
+  (Object.keys(before.targets) as BasicColor[]).forEach((color) => {
+    const left = mover.targets[color] ?? 0;
+    if (left === before.targets[color]) return;
+    parts.push(left === 0 ? `${capitalize(COLOR_NAMES[color])} target done` : `${left} ${COLOR_NAMES[color]} to go`);
+  });
+
+  if (after.status === 'playing' && after.mode === 'versus') {
+    parts.push(`${plural(after.moves, 'turn')} left, ${playerName(after.turn)}'s turn`);
+  } else if (after.status === 'playing' && hasMoveLimit(after.mode)) {
+    parts.push(`${plural(after.moves, 'move')} left`);
+  }
+  return parts.join('. ');
+};
+
+const describeVersusResult = (state: GameState): string => {
+  const winners = versusWinners(state);
+  const points = plural(state.players[winners[0]].score, 'point');
+  if (winners.length === 1) return `${playerName(winners[0])} wins with ${points}`;
+  return `Draw between ${winners.map(playerName).join(' and ')} with ${points}`;
+};
+
+export const describeOutcome = (state: GameState, stars: number): string => {
+  const rating = plural(stars, 'star');
+  switch (state.status) {
+    case 'levelup':
+      return `Level ${state.level + 1} complete, ${rating}`;
+    case 'won':
+      if (state.mode === 'zen') return `Session over with ${plural(state.score, 'point')}`;
+      if (state.mode === 'versus') return describeVersusResult(state);
+      // Whether a race was won depends on the other racers, which only the server knows.
+      if (state.mode === 'race') return `Race cleared with ${plural(state.score, 'point')}`;
+      return state.mode === 'daily' ? `Daily challenge cleared, ${rating}` : `You win! ${rating}`;
+    case 'lost':
+      return `${state.mode === 'timeAttack' ? "Time's up" : 'Out of moves'}. Game over with ${plural(state.score, 'point')}`;
+    default:
+      return '';
+  }
+};
@@ -0,0 +1,63 @@
+// Thin client for the score server (see server.ts). Every call rejects when the
+// server isn't reachable, so callers should treat ranks as optional extras.
+// Submissions carry the encoded replay: the server re-simulates it and rejects
+// any score it can't reproduce.
+
+export interface RankResult {
+  rank: number;
+  total: number;
+}
+
+export interface RunSubmission {
+  player: string;
+  seed: string;
+  levelReached: number;
+  score: number;
+  movesUsed: number;
+  replay: string;
+}
+
+export interface LevelBestSubmission {
+  player: string;
+  level: number;
+  score: number;
+  movesLeft: number;
+  replay: string;
+}
+
+const PLAYER_NAME_KEY = 'pop-match:player';
+
+const request = async <T,>(url: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error || `Request failed with status ${res.status}`);
+  return body as T;
+};
+
+export const submitRun = (run: RunSubmission) =>
+  request<RankResult & { id: number }>('/api/runs', { method: 'POST', body: JSON.stringify(run) });
+
+export const submitLevelBest = ({ level, ...best }: LevelBestSubmission) =>
+  request<RankResult & { best: { score: number; movesLeft: number } }>(`/api/levels/${level}/bests`, {
+    method: 'POST',
+    body: JSON.stringify(best),
+  });
+
+export const loadPlayerName = (): string => {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+  } catch {
+    // Private mode etc. - the name just won't be remembered.
+  }
+};
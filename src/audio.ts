@@ -0,0 +1,257 @@
+// Synth-only audio engine. Every sound is an oscillator (or a burst of generated
+// noise) routed through one of two buses:
+//
+//   sfx bus ───────────────┐
+//   music bus ── duck ─────┴── compressor ── master ── speakers
+//
+// The compressor keeps long chains of overlapping pops from clipping, and the
+// duck gain dips the music under level-up / game-over stingers. The music is a
+// short procedurally sequenced loop whose layers come in as the combo meter fills.
+
+let ctx: AudioContext | null = null;
+let masterGain: GainNode;
+let sfxBus: GainNode;
+let musicBus: GainNode;
+let duckGain: GainNode;
+let noiseBuffer: AudioBuffer;
+
+let muted = false;
+let volumes = { master: 1, sfx: 1, music: 1 };
+
+// The music loop runs at this level before the music volume is applied, so it
+// sits underneath the effects.
+const MUSIC_LEVEL = 0.5;
+const DUCK_LEVEL = 0.2;
+
+export const initAudio = () => {
+  if (!ctx) {
+    ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = -18;
+    compressor.knee.value = 12;
+    compressor.ratio.value = 6;
+    compressor.attack.value = 0.003;
+    compressor.release.value = 0.25;
+
+    masterGain = ctx.createGain();
+    sfxBus = ctx.createGain();
+    musicBus = ctx.createGain();
+    duckGain = ctx.createGain();
+    sfxBus.connect(compressor);
+    musicBus.connect(duckGain);
+    duckGain.connect(compressor);
+    compressor.connect(masterGain);
+    masterGain.connect(ctx.destination);
+
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate * 0.5, ctx.sampleRate);
+    const samples = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    applyVolumes();
+    if (musicWanted) startScheduler();
+  }
+  if (ctx.state === 'suspended') {
+    ctx.resume();
+  }
+};
+
+const applyVolumes = () => {
+  if (!ctx) return;
+  const now = ctx.currentTime;
+  masterGain.gain.setTargetAtTime(muted ? 0 : volumes.master, now, 0.02);
+  sfxBus.gain.setTargetAtTime(volumes.sfx, now, 0.02);
+  musicBus.gain.setTargetAtTime(volumes.music * MUSIC_LEVEL, now, 0.02);
+};
+
+export const setAudioVolumes = (master: number, sfx: number, music: number, isMuted: boolean) => {
+  volumes = { master, sfx, music };
+  muted = isMuted;
+  applyVolumes();
+};
+
+const playTone = (
+  freq: number,
+  type: OscillatorType,
+  duration: number,
+  startTimeOffset: number = 0,
+  bus: GainNode = sfxBus,
+  peak: number = 0.1,
+) => {
+  if (!ctx || muted) return;
+  const startTime = ctx.currentTime + startTimeOffset;
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, startTime);
+
+  gain.gain.setValueAtTime(peak, startTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
+
+  osc.connect(gain);
+  gain.connect(bus);
+
+  osc.start(startTime);
+  osc.stop(startTime + duration);
+};
+
+const playNoise = (startTimeOffset: number, duration: number, peak: number, bus: GainNode) => {
+  if (!ctx || muted) return;
+  const startTime = ctx.currentTime + startTimeOffset;
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = noiseBuffer;
+  filter.type = 'highpass';
+  filter.frequency.value = 7000;
+  gain.gain.setValueAtTime(peak, startTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
+  source.connect(filter);
+  filter.connect(gain);
+  gain.connect(bus);
+  source.start(startTime);
+  source.stop(startTime + duration);
+};
+
+// Dips the music for a stinger, then brings it back.
+const duckMusic = (seconds: number) => {
+  if (!ctx) return;
+  const now = ctx.currentTime;
+  duckGain.gain.cancelScheduledValues(now);
+  duckGain.gain.setTargetAtTime(DUCK_LEVEL, now, 0.03);
+  duckGain.gain.setTargetAtTime(1, now + seconds, 0.3);
+};
+
+// --- SOUND EFFECTS ---
+export const playPop = (count: number) => {
+  const baseFreq = 300 + Math.min(count * 40, 400);
+  playTone(baseFreq, 'sine', 0.15);
+  playTone(baseFreq * 1.5, 'sine', 0.15, 0.05);
+};
+
+export const playBonus = () => {
+  // Softer, smoother bonus sound using sine waves
+  playTone(440, 'sine', 0.2, 0);
+  playTone(554, 'sine', 0.2, 0.05);
+  playTone(659, 'sine', 0.2, 0.1);
+  playTone(880, 'sine', 0.4, 0.15);
+};
+
+export const playClick = () => {
+  playTone(600, 'sine', 0.05);
+};
+
+export const playLevelUp = () => {
+  duckMusic(0.9);
+  playTone(523.25, 'triangle', 0.15, 0);
+  playTone(659.25, 'triangle', 0.15, 0.15);
+  playTone(783.99, 'triangle', 0.15, 0.3);
+  playTone(1046.50, 'triangle', 0.4, 0.45);
+};
+
+export const playGameOver = () => {
+  duckMusic(1.6);
+  playTone(300, 'sawtooth', 0.3, 0);
+  playTone(280, 'sawtooth', 0.3, 0.3);
+  playTone(260, 'sawtooth', 0.3, 0.6);
+  playTone(200, 'sawtooth', 0.6, 0.9);
+};
+
+export const playWin = () => {
+  duckMusic(1.5);
+  playTone(523.25, 'square', 0.2, 0);
+  playTone(523.25, 'square', 0.2, 0.2);
+  playTone(523.25, 'square', 0.2, 0.4);
+  playTone(659.25, 'square', 0.4, 0.6);
+  playTone(783.99, 'square', 0.4, 1.0);
+};
+
+export const playSelect = (index: number) => {
+  if (!ctx) return;
+  // Pentatonic scale for selection sounds
+  const scale = [261.63, 293.66, 329.63, 392.00, 440.00];
+  const freq = scale[index % scale.length] * Math.pow(2, Math.floor(index / scale.length));
+  playTone(freq, 'sine', 0.1);
+};
+
+export const playRainbow = () => {
+  // Softer, shimmering rainbow sound
+  for (let i = 0; i < 8; i++) {
+    playTone(523.25 * Math.pow(1.1, i), 'sine', 0.2, i * 0.04);
+  }
+};
+
+// --- MUSIC ---
+// A 16-step loop over a four-chord progression (one chord per bar of 16 steps).
+// Layers by intensity: bass always, then a pad, an arpeggio and hi-hats.
+const BPM = 112;
+const STEP_SECONDS = 60 / BPM / 4;
+const SCHEDULE_AHEAD = 0.12;
+const SCHEDULER_MS = 25;
+
+// Semitones from C3 for each chord's root, third and fifth: C, Am, F, G.
+const PROGRESSION = [
+  [0, 4, 7],
+  [-3, 0, 4],
+  [-7, -3, 0],
+  [-5, -1, 2],
+];
+const C3 = 130.81;
+const note = (semitones: number, octave = 0) => C3 * Math.pow(2, semitones / 12 + octave);
+
+let musicWanted = false;
+let intensity = 0;
+let scheduler: ReturnType<typeof setInterval> | null = null;
+let step = 0;
+let nextStepTime = 0;
+
+const scheduleStep = (time: number) => {
+  const offset = Math.max(0, time - ctx!.currentTime);
+  const chord = PROGRESSION[Math.floor(step / 16) % PROGRESSION.length];
+  const beat = step % 16;
+
+  if (beat % 4 === 0) playTone(note(chord[0], -1), 'triangle', STEP_SECONDS * 3, offset, musicBus, 0.12);
+  if (intensity > 0.25 && beat % 8 === 0) {
+    chord.forEach((semitones) => playTone(note(semitones), 'sine', STEP_SECONDS * 7, offset, musicBus, 0.03));
+  }
+  if (intensity > 0.5 && beat % 2 === 0) {
+    const arp = chord[(beat / 2) % chord.length];
+    playTone(note(arp, 1), 'square', STEP_SECONDS * 0.9, offset, musicBus, 0.015);
+  }
+  if (intensity > 0.75 && beat % 2 === 1) playNoise(offset, 0.05, 0.04, musicBus);
+
+  step = (step + 1) % (16 * PROGRESSION.length);
+};
+
+// Standard look-ahead scheduling: a coarse timer queues every step that falls
+// within the next SCHEDULE_AHEAD seconds at its exact audio-clock time.
+const startScheduler = () => {
+  if (!ctx || scheduler) return;
+  step = 0;
+  nextStepTime = ctx.currentTime + 0.05;
+  scheduler = setInterval(() => {
+    // Timers are throttled in background tabs; skip missed steps instead of bursting them.
+    if (nextStepTime < ctx!.currentTime) nextStepTime = ctx!.currentTime + 0.05;
+    while (nextStepTime < ctx!.currentTime + SCHEDULE_AHEAD) {
+      scheduleStep(nextStepTime);
+      nextStepTime += STEP_SECONDS;
+    }
+  }, SCHEDULER_MS);
+};
+
+export const startMusic = () => {
+  musicWanted = true;
+  startScheduler();
+};
+
+export const stopMusic = () => {
+  musicWanted = false;
+  if (scheduler) clearInterval(scheduler);
+  scheduler = null;
+};
+
+// 0 = calm (bass only), 1 = every layer playing.
+export const setMusicIntensity = (value: number) => {
+  intensity = Math.max(0, Math.min(1, value));
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { BallColor, BasicColor } from '../game/engine';
+
+interface ColorGlyphProps {
+  color: BallColor;
+  className?: string;
+}
+
+// One shape per basic color, so colors can be told apart without hue. Rainbow,
+// special and item balls have their own markings and get no glyph.
+const SHAPES: Record<BasicColor, React.ReactNode> = {
+  red: <path d="M12 20s-7-4.5-7-10a4 4 0 0 1 7-2.5A4 4 0 0 1 19 10c0 5.5-7 10-7 10z" />,
+  blue: <rect x="5" y="5" width="14" height="14" rx="1" />,
+  yellow: <path d="M12 4l8 15H4z" />,
+  green: <path d="M9 4h6v5h5v6h-5v5H9v-5H4V9h5z" />,
+  purple: <path d="M12 3l8 9-8 9-8-9z" />,
+};
+
+export default function ColorGlyph({ color, className = 'w-5 h-5' }: ColorGlyphProps) {
+  if (!(color in SHAPES)) return null;
+  return (
+    <svg viewBox="0 0 24 24" fill="white" stroke="black" strokeWidth="2" strokeLinejoin="round" className={`pointer-events-none ${className}`} aria-hidden="true">
+      {SHAPES[color as BasicColor]}
+    </svg>
+  );
+}
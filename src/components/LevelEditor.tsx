@@ -0,0 +1,493 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Adjacency, BASIC_COLORS, BallColor, BasicColor, COLS, DEFAULT_RULES, LevelConfig, LevelGoal, PowerupRules, PowerupType, ROWS, boardRules } from '../game/engine';
+import { CellSpec, encodeLevel, parseLevel, serializeLevel } from '../game/levels';
+import { DEFAULT_POWERUP_RULES, POWERUPS, POWERUP_TYPES } from '../game/powerups';
+import { AnalysisReport, TrialResult, runTrial, summarizeTrials, trialSeed } from '../game/analyzer';
+import { BOTS, BotName } from '../game/bots';
+import { PaletteName, colorClasses } from '../theme';
+
+type Brush = 'random' | BallColor | PowerupType | 'hole' | 'stone' | 'ice' | 'thaw';
+
+const MIN_SIZE = 3;
+const MAX_SIZE = 12;
+const MAX_ICE = 3;
+const MIN_CHAIN = 2;
+const MAX_CHAIN = 6;
+
+const ADJACENCIES: Adjacency[] = ['4-way', '8-way', 'hex'];
+
+// Enough runs for a rough win rate; run in short slices so the page stays responsive.
+const ANALYSIS_RUNS = 100;
+const ANALYSIS_SLICE_MS = 30;
+const ANALYSIS_SEED = 'EDITOR';
+
+// Text icons read the same on a brush and a cell; drawn icons fall back to a name or the layout token.
+const powerupLabel = (type: PowerupType, fallback: string) => {
+  const { icon } = POWERUPS[type];
+  return 'text' in icon ? icon.text : fallback;
+};
+
+const BRUSHES: { brush: Brush; label: string }[] = [
+  { brush: 'random', label: 'RANDOM' },
+  ...[...BASIC_COLORS, 'rainbow', 'special', 'item'].map((color) => ({ brush: color as Brush, label: color.toUpperCase() })),
+  ...POWERUP_TYPES.map((type) => ({ brush: type as Brush, label: powerupLabel(type, POWERUPS[type].name.toUpperCase()) })),
+  { brush: 'hole', label: 'HOLE' },
+  { brush: 'stone', label: 'STONE' },
+  { brush: 'ice', label: 'ICE' },
+  { brush: 'thaw', label: 'THAW' },
+];
+
+const randomCell = (): CellSpec => ({ tile: 'open', ice: 0 });
+
+export const blankLevel = (): LevelConfig => ({
+  name: 'My Level',
+  moves: 20,
+  targets: { red: 10 },
+  rows: ROWS,
+  cols: COLS,
+  layout: Array.from({ length: ROWS }, () => Array.from({ length: COLS }, randomCell)),
+  goals: [],
+});
+
+// The editor always works on an explicit layout; levels without one are all random cells.
+export const withLayout = (config: LevelConfig): LevelConfig => {
+  if (config.layout) return config;
+  const rows = config.rows ?? ROWS;
+  const cols = config.cols ?? COLS;
+  return {
+    ...config,
+    rows,
+    cols,
+    layout: Array.from({ length: rows }, () => Array.from({ length: cols }, randomCell)),
+  };
+};
+
+const paintCell = (cell: CellSpec, brush: Brush): CellSpec => {
+  switch (brush) {
+    case 'random':
+      return { tile: 'open', ice: cell.tile === 'open' && cell.ball?.color !== 'item' ? cell.ice : 0 };
+    case 'hole':
+    case 'stone':
+      return { tile: brush, ice: 0 };
+    case 'item':
+      return { tile: 'open', ice: 0, ball: { color: 'item' } };
+    case 'ice':
+      if (cell.tile !== 'open' || cell.ball?.color === 'item') return cell;
+      return { ...cell, ice: (cell.ice % MAX_ICE) + 1 };
+    case 'thaw':
+      return { ...cell, ice: 0 };
+    case 'moves':
+    case 'multiplier':
+    case 'bomb':
+    case 'line':
+    case 'blast':
+    case 'convert':
+    case 'shuffle': {
+      // Only fixed balls can carry a powerup; painting the same one again removes it.
+      if (!cell.ball || cell.ball.color === 'item') return cell;
+      const { powerup, ...ball } = cell.ball;
+      return { ...cell, ball: powerup === brush ? ball : { ...ball, powerup: brush } };
+    }
+    default:
+      return {
+        tile: 'open',
+        ice: cell.tile === 'open' && cell.ball?.color !== 'item' ? cell.ice : 0,
+        ball: { color: brush, powerup: cell.ball?.color === 'item' ? undefined : cell.ball?.powerup },
+      };
+  }
+};
+
+const resizeLayout = (layout: CellSpec[][], rows: number, cols: number): CellSpec[][] =>
+  Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) => layout[r]?.[c] ?? randomCell()));
+
+const validate = (config: LevelConfig): string | null => {
+  try {
+    parseLevel(serializeLevel(config));
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+interface LevelEditorProps {
+  level: LevelConfig;
+  onChange: (level: LevelConfig) => void;
+  onPlayTest: (level: LevelConfig) => void;
+  onExit: () => void;
+  palette: PaletteName;
+}
+
+export default function LevelEditor({ level, onChange, onPlayTest, onExit, palette }: LevelEditorProps) {
+  const colors = colorClasses(palette);
+  const [brush, setBrush] = useState<Brush>('red');
+  const [painting, setPainting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [bot, setBot] = useState<BotName>('targets');
+  const [analysis, setAnalysis] = useState<{ done: number; report: AnalysisReport | null } | null>(null);
+  const analysisRun = useRef(0);
+  const lastPainted = useRef<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const layout = level.layout ?? [];
+  const rows = layout.length;
+  const cols = layout[0]?.length ?? 0;
+  const rules = boardRules(level);
+  const goals = level.goals ?? [];
+  const error = validate(level);
+
+  useEffect(() => {
+    if (!painting) return;
+    const stop = () => {
+      setPainting(false);
+      lastPainted.current = null;
+    };
+    window.addEventListener('pointerup', stop);
+    return () => window.removeEventListener('pointerup', stop);
+  }, [painting]);
+
+  // Any edit makes a previous analysis stale and cancels one in progress.
+  useEffect(() => {
+    setAnalysis(null);
+    return () => {
+      analysisRun.current++;
+    };
+  }, [level, bot]);
+
+  const runAnalysis = () => {
+    const id = ++analysisRun.current;
+    const trials: TrialResult[] = [];
+    const step = () => {
+      if (analysisRun.current !== id) return;
+      const deadline = performance.now() + ANALYSIS_SLICE_MS;
+      do {
+        trials.push(runTrial(level, trialSeed(ANALYSIS_SEED, trials.length), BOTS[bot]));
+      } while (trials.length < ANALYSIS_RUNS && performance.now() < deadline);
+      const finished = trials.length === ANALYSIS_RUNS;
+      setAnalysis({ done: trials.length, report: finished ? summarizeTrials(trials) : null });
+      if (!finished) setTimeout(step, 0);
+    };
+    step();
+  };
+
+  const paint = (r: number, c: number) => {
+    const key = `${r}-${c}`;
+    if (lastPainted.current === key) return;
+    lastPainted.current = key;
+    onChange({
+      ...level,
+      layout: layout.map((row, rr) => row.map((cell, cc) => (rr === r && cc === c ? paintCell(cell, brush) : cell))),
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!painting) return;
+    const element = document.elementFromPoint(e.clientX, e.clientY);
+    const cell = element?.closest('[data-row]');
+    if (cell) paint(Number(cell.getAttribute('data-row')), Number(cell.getAttribute('data-col')));
+  };
+
+  const resize = (nextRows: number, nextCols: number) => {
+    if (nextRows < MIN_SIZE || nextRows > MAX_SIZE || nextCols < MIN_SIZE || nextCols > MAX_SIZE) return;
+    onChange({ ...level, rows: nextRows, cols: nextCols, layout: resizeLayout(layout, nextRows, nextCols) });
+  };
+
+  // Default rules are left out of the level so exported JSON stays minimal.
+  const setAdjacency = (adjacency: Adjacency) =>
+    onChange({ ...level, adjacency: adjacency === DEFAULT_RULES.adjacency ? undefined : adjacency });
+
+  const setMinMatch = (minMatch: number) => {
+    if (minMatch < MIN_CHAIN || minMatch > MAX_CHAIN) return;
+    onChange({ ...level, minMatch: minMatch === DEFAULT_RULES.minMatch ? undefined : minMatch });
+  };
+
+  const setPowerups = (patch: Partial<PowerupRules>) => {
+    const next = { ...rules.powerups, ...patch };
+    const powerups: Partial<PowerupRules> = {};
+    if (next.chance !== DEFAULT_POWERUP_RULES.chance) powerups.chance = next.chance;
+    if (next.refillChance !== DEFAULT_POWERUP_RULES.refillChance) powerups.refillChance = next.refillChance;
+    if (next.types.join() !== DEFAULT_POWERUP_RULES.types.join()) powerups.types = next.types;
+    onChange({ ...level, powerups: Object.keys(powerups).length > 0 ? powerups : undefined });
+  };
+
+  const togglePowerup = (type: PowerupType) =>
+    setPowerups({
+      types: rules.powerups.types.includes(type)
+        ? rules.powerups.types.filter((t) => t !== type)
+        : POWERUP_TYPES.filter((t) => t === type || rules.powerups.types.includes(t)),
+    });
+
+  const percentInput = (value: number, onValue: (value: number) => void) =>
+    numberInput(Math.round(value * 100), (percent) => onValue(Math.min(100, percent) / 100), 'w-14');
+
+  const setTarget = (color: BasicColor, count: number) => {
+    const targets = { ...level.targets };
+    if (count > 0) targets[color] = count;
+    else delete targets[color];
+    onChange({ ...level, targets });
+  };
+
+  const goalValue = (type: LevelGoal['type']) => goals.find((goal) => goal.type === type);
+
+  const setGoal = (type: LevelGoal['type'], goal: LevelGoal | null) => {
+    const others = goals.filter((g) => g.type !== type);
+    onChange({ ...level, goals: goal ? [...others, goal] : others });
+  };
+
+  const exportLevel = () => {
+    const blob = new Blob([JSON.stringify(serializeLevel(level), null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(level.name || 'level').toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importLevel = (file: File) => {
+    file.text()
+      .then((text) => {
+        onChange(withLayout(parseLevel(JSON.parse(text))));
+        setImportError(null);
+      })
+      .catch((err) => setImportError(`Can't import ${file.name}: ${err.message}`));
+  };
+
+  const copyLink = () => {
+    const url = `${window.location.origin}${window.location.pathname}?level=${encodeLevel(level)}`;
+    navigator.clipboard?.writeText(url).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    });
+  };
+
+  const numberInput = (value: number, onValue: (value: number) => void, className = 'w-14') => (
+    <input
+      type="number"
+      min={0}
+      value={value}
+      onChange={(e) => onValue(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+      className={`${className} font-comic text-lg px-1 border-2 border-black rounded-lg text-center`}
+    />
+  );
+
+  const buttonClass = 'font-comic text-lg px-3 py-1 rounded-lg comic-border hover:-translate-y-0.5 active:translate-y-0.5 transition-all disabled:opacity-40 disabled:translate-y-0';
+  const scoreGoal = goalValue('score');
+  const dropGoal = goalValue('dropItems');
+
+  return (
+    <div className="bg-white p-3 sm:p-4 comic-border rounded-2xl z-10 w-full max-w-md flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <input
+          value={level.name ?? ''}
+          onChange={(e) => onChange({ ...level, name: e.target.value })}
+          placeholder="Level name"
+          maxLength={32}
+          className="flex-1 font-comic text-xl px-2 py-1 border-2 border-black rounded-lg"
+        />
+        <button onClick={onExit} className={`${buttonClass} bg-gray-200`}>EXIT</button>
+      </div>
+
+      {/* Brushes */}
+      <div className="flex flex-wrap gap-1">
+        {BRUSHES.map(({ brush: b, label }) => (
+          <button
+            key={b}
+            onClick={() => setBrush(b)}
+            className={`font-comic text-xs px-2 py-1 rounded-md border-2 border-black flex items-center gap-1 transition-colors ${brush === b ? 'bg-black text-white' : 'bg-white hover:bg-gray-100'}`}
+          >
+            {b in colors && <span className={`w-3 h-3 rounded-full border border-black ${colors[b as BallColor]}`} />}
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Board */}
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex gap-4 font-comic text-lg">
+          <div className="flex items-center gap-1">
+            ROWS
+            <button onClick={() => resize(rows - 1, cols)} className="w-6 h-6 leading-none border-2 border-black rounded">-</button>
+            <span className="w-6 text-center">{rows}</span>
+            <button onClick={() => resize(rows + 1, cols)} className="w-6 h-6 leading-none border-2 border-black rounded">+</button>
+          </div>
+          <div className="flex items-center gap-1">
+            COLS
+            <button onClick={() => resize(rows, cols - 1)} className="w-6 h-6 leading-none border-2 border-black rounded">-</button>
+            <span className="w-6 text-center">{cols}</span>
+            <button onClick={() => resize(rows, cols + 1)} className="w-6 h-6 leading-none border-2 border-black rounded">+</button>
+          </div>
+        </div>
+        <div
+          className={`grid gap-0.5 touch-none ${rules.adjacency === 'hex' ? 'pr-[15px] sm:pr-[17px]' : ''}`}
+          style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}
+          onPointerMove={handlePointerMove}
+        >
+          {layout.map((row, r) =>
+            row.map((cell, c) => (
+              <div
+                key={`${r}-${c}`}
+                data-row={r}
+                data-col={c}
+                onPointerDown={() => {
+                  setPainting(true);
+                  paint(r, c);
+                }}
+                className={`w-7 h-7 sm:w-8 sm:h-8 relative rounded-md border-2 cursor-pointer ${rules.adjacency === 'hex' && r % 2 === 1 ? 'translate-x-[calc(50%+1px)]' : ''} ${cell.tile === 'hole' ? 'border-dashed border-gray-300 bg-transparent' : 'border-gray-200 bg-gray-100'}`}
+              >
+                {cell.tile === 'stone' && (
+                  <div className="absolute inset-0 rounded-md border-2 border-black bg-gradient-to-br from-gray-400 to-gray-600" />
+                )}
+                {cell.tile === 'open' && cell.ball && (
+                  <div className={`absolute inset-0.5 border-2 border-black flex items-center justify-center font-comic text-[10px] text-white leading-none ${cell.ball.color === 'item' || cell.ball.color === 'special' ? 'rounded-md' : 'rounded-full'} ${colors[cell.ball.color]}`}>
+                    {cell.ball.powerup ? powerupLabel(cell.ball.powerup, POWERUPS[cell.ball.powerup].token) : cell.ball.color === 'item' ? '↓' : ''}
+                  </div>
+                )}
+                {cell.tile === 'open' && !cell.ball && (
+                  <div className="absolute inset-0 flex items-center justify-center font-comic text-gray-400 text-sm">?</div>
+                )}
+                {cell.ice > 0 && (
+                  <div className="absolute inset-0 rounded-md border-2 border-white bg-cyan-200/60 flex items-end justify-end p-0.5">
+                    <span className="font-comic text-[10px] text-cyan-900 leading-none">{cell.ice}</span>
+                  </div>
+                )}
+              </div>
+            )),
+          )}
+        </div>
+      </div>
+
+      {/* Rules */}
+      <div className="flex flex-col gap-2 font-comic text-lg">
+        <div className="flex items-center gap-2">
+          MOVES {numberInput(level.moves, (moves) => onChange({ ...level, moves }))}
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          LINKS
+          {ADJACENCIES.map((adjacency) => (
+            <button
+              key={adjacency}
+              onClick={() => setAdjacency(adjacency)}
+              className={`font-comic text-sm px-2 py-0.5 rounded-md border-2 border-black transition-colors ${rules.adjacency === adjacency ? 'bg-black text-white' : 'bg-white hover:bg-gray-100'}`}
+            >
+              {adjacency.toUpperCase()}
+            </button>
+          ))}
+          <div className="flex items-center gap-1 ml-auto">
+            MIN CHAIN
+            <button onClick={() => setMinMatch(rules.minMatch - 1)} className="w-6 h-6 leading-none border-2 border-black rounded">-</button>
+            <span className="w-6 text-center">{rules.minMatch}</span>
+            <button onClick={() => setMinMatch(rules.minMatch + 1)} className="w-6 h-6 leading-none border-2 border-black rounded">+</button>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          POWERUPS
+          {POWERUP_TYPES.map((type) => (
+            <button
+              key={type}
+              onClick={() => togglePowerup(type)}
+              title={POWERUPS[type].name}
+              className={`font-comic text-sm px-2 py-0.5 rounded-md border-2 border-black transition-colors ${rules.powerups.types.includes(type) ? 'bg-black text-white' : 'bg-white hover:bg-gray-100'}`}
+            >
+              {powerupLabel(type, POWERUPS[type].name.toUpperCase())}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <label className="flex items-center gap-1">
+            START % {percentInput(rules.powerups.chance, (chance) => setPowerups({ chance }))}
+          </label>
+          <label className="flex items-center gap-1">
+            REFILL % {percentInput(rules.powerups.refillChance, (refillChance) => setPowerups({ refillChance }))}
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={rules.cascade}
+              onChange={(e) => onChange({ ...level, cascade: e.target.checked || undefined })}
+              className="w-4 h-4 accent-black"
+            />
+            CASCADE
+          </label>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          TARGETS
+          {BASIC_COLORS.map((color) => (
+            <label key={color} className="flex items-center gap-1">
+              <span className={`w-4 h-4 rounded-full border-2 border-black ${colors[color]}`} />
+              {numberInput(level.targets[color] ?? 0, (count) => setTarget(color, count), 'w-11')}
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <label className="flex items-center gap-1">
+            SCORE {numberInput(scoreGoal?.type === 'score' ? scoreGoal.score : 0, (score) => setGoal('score', score > 0 ? { type: 'score', score } : null), 'w-20')}
+          </label>
+          <label className="flex items-center gap-1">
+            DROP {numberInput(dropGoal?.type === 'dropItems' ? dropGoal.count : 0, (count) => setGoal('dropItems', count > 0 ? { type: 'dropItems', count } : null), 'w-11')}
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={!!goalValue('clearIce')}
+              onChange={(e) => setGoal('clearIce', e.target.checked ? { type: 'clearIce' } : null)}
+              className="w-4 h-4 accent-black"
+            />
+            CLEAR ICE
+          </label>
+        </div>
+      </div>
+
+      {/* Difficulty */}
+      <div className="flex flex-col gap-1 font-comic">
+        <div className="flex items-center gap-2">
+          <button onClick={runAnalysis} disabled={!!error || (!!analysis && !analysis.report)} className={`${buttonClass} bg-[#cc33ff] text-white`}>ANALYZE</button>
+          <div className="flex bg-white border-2 border-black rounded-lg overflow-hidden">
+            {(Object.keys(BOTS) as BotName[]).map((name) => (
+              <button
+                key={name}
+                onClick={() => setBot(name)}
+                className={`text-sm px-2 py-0.5 uppercase transition-colors ${name === bot ? 'bg-black text-white' : 'hover:bg-gray-100'}`}
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        </div>
+        {analysis && (
+          <div className="text-base leading-tight">
+            {analysis.report
+              ? `WIN ${Math.round(analysis.report.winRate * 100)}% · ${analysis.report.avgMovesLeft.toFixed(1)} MOVES LEFT · SCORE ${analysis.report.score.p25}–${analysis.report.score.p75}`
+              : `PLAYING ${analysis.done}/${ANALYSIS_RUNS}…`}
+            {analysis.report && analysis.report.stuckRate > 0 && (
+              <span className="text-red-500"> · STUCK {Math.round(analysis.report.stuckRate * 100)}%</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {(error || importError) && (
+        <div className="font-comic text-base text-red-500 leading-tight">{importError ?? error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => onPlayTest(level)} disabled={!!error} className={`${buttonClass} bg-[#33ff33] flex-1`}>PLAY-TEST</button>
+        <button onClick={exportLevel} disabled={!!error} className={`${buttonClass} bg-[#ffcc00]`}>EXPORT</button>
+        <button onClick={() => fileInput.current?.click()} className={`${buttonClass} bg-[#33ccff]`}>IMPORT</button>
+        <button onClick={copyLink} disabled={!!error} className={`${buttonClass} bg-white`}>{linkCopied ? 'COPIED!' : 'LINK'}</button>
+        <button onClick={() => onChange(blankLevel())} className={`${buttonClass} bg-gray-200`}>CLEAR</button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importLevel(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { LEVELS } from '../game/levels';
+import { Progress, isUnlocked, totalStars } from '../progress';
+import StarRating from './StarRating';
+
+interface LevelMapProps {
+  progress: Progress;
+  onSelect: (level: number) => void;
+}
+
+const PER_ROW = 4;
+
+export default function LevelMap({ progress, onSelect }: LevelMapProps) {
+  // Rows alternate direction so the path snakes down the map.
+  const rows: number[][] = [];
+  for (let i = 0; i < LEVELS.length; i += PER_ROW) {
+    const row = LEVELS.slice(i, i + PER_ROW).map((_, j) => i + j);
+    rows.push(rows.length % 2 === 0 ? row : row.reverse());
+  }
+
+  return (
+    <div className="w-full mb-6">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-comic text-xl">CAMPAIGN</span>
+        <span className="font-comic text-lg bg-gray-100 px-3 rounded-full border-2 border-black">
+          ★ {totalStars(progress)}/{LEVELS.length * 3}
+        </span>
+      </div>
+      <div className="flex flex-col gap-3 p-3 bg-gray-50 rounded-2xl border-2 border-dashed border-gray-300">
+        {rows.map((row, r) => (
+          <div key={r} className={`flex gap-2 ${r % 2 === 0 ? 'justify-start' : 'justify-end'}`}>
+            {row.map((level) => {
+              const unlocked = isUnlocked(progress, level);
+              const entry = progress[level];
+              return (
+                <button
+                  key={level}
+                  onClick={() => onSelect(level)}
+                  disabled={!unlocked}
+                  title={LEVELS[level].name ?? `Level ${level + 1}`}
+                  className={`w-14 flex flex-col items-center gap-0.5 transition-transform ${unlocked ? 'hover:-translate-y-1' : 'cursor-not-allowed'}`}
+                >
+                  <div className={`w-12 h-12 rounded-full comic-border flex items-center justify-center font-comic text-2xl ${entry ? 'bg-[#33ff33]' : unlocked ? 'bg-[#ffcc00] animate-pulse' : 'bg-gray-300 text-gray-500'}`}>
+                    {unlocked ? level + 1 : (
+                      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="11" width="18" height="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></svg>
+                    )}
+                  </div>
+                  <StarRating stars={entry?.stars ?? 0} />
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
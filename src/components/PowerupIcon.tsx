@@ -0,0 +1,23 @@
+import React from 'react';
+import { PowerupType } from '../game/engine';
+import { POWERUPS } from '../game/powerups';
+
+interface PowerupIconProps {
+  type: PowerupType;
+}
+
+// Draws a powerup's registry icon centered on its ball.
+export default function PowerupIcon({ type }: PowerupIconProps) {
+  const { icon } = POWERUPS[type];
+  return (
+    <div className="absolute inset-0 flex items-center justify-center">
+      {'text' in icon ? (
+        <span className="font-comic text-white text-xl drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">{icon.text}</span>
+      ) : (
+        <svg viewBox="0 0 24 24" fill="black" className="w-6 h-6 drop-shadow-[0_0_2px_rgba(255,255,255,0.8)]" aria-hidden="true">
+          <path d={icon.path} />
+        </svg>
+      )}
+    </div>
+  );
+}
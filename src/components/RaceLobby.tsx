@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { MAX_RACER_NAME_LENGTH, RACE_MAX_PLAYERS, RACE_MIN_PLAYERS, ROOM_CODE_LENGTH, RoomView } from '../game/race';
+import { RaceStatus } from '../race';
+
+interface RaceLobbyProps {
+  room: RoomView | null;
+  you: string;
+  status: RaceStatus;
+  error: string;
+  playerName: string;
+  onJoin: (name: string, code?: string) => void;
+  onReady: (ready: boolean) => void;
+  onLeave: () => void;
+}
+
+export default function RaceLobby({ room, you, status, error, playerName, onJoin, onReady, onLeave }: RaceLobbyProps) {
+  const [name, setName] = useState(playerName);
+  const [code, setCode] = useState('');
+  const [now, setNow] = useState(Date.now);
+  const me = room?.racers.find((racer) => racer.id === you);
+  // The server sends how long was left when it sent the room.
+  const startsAt = useMemo(() => (room?.phase === 'countdown' ? Date.now() + room.countdown : 0), [room]);
+
+  useEffect(() => {
+    if (!startsAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [startsAt]);
+
+  const joining = status === 'connecting' && !room;
+
+  return (
+    <motion.div
+      initial={{ scale: 0.9, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      className="bg-white p-6 sm:p-8 rounded-3xl comic-border max-w-sm w-full text-center flex flex-col items-center gap-2 z-10"
+    >
+      <h2 className="font-comic text-5xl comic-text text-[#33ccff] transform -rotate-2 mb-2">RACE</h2>
+      {!room ? (
+        <>
+          <p className="font-comic text-lg text-gray-600">
+            Everyone gets the same board. First to clear the targets wins!
+          </p>
+          <h3 className="w-full text-left font-comic text-sm tracking-widest text-gray-500 mt-2">YOUR NAME</h3>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_RACER_NAME_LENGTH}
+            placeholder="Racer"
+            className="w-full font-comic text-xl px-3 py-1 rounded-lg border-2 border-black"
+          />
+          <button
+            onClick={() => onJoin(name)}
+            disabled={joining}
+            className="w-full bg-[#ffcc00] text-black font-comic text-2xl py-2 mt-2 rounded-full comic-border hover:bg-[#ffe066] transition-all disabled:opacity-50"
+          >
+            CREATE ROOM
+          </button>
+          <h3 className="w-full text-left font-comic text-sm tracking-widest text-gray-500 mt-2">OR JOIN A ROOM</h3>
+          <div className="flex gap-2 w-full">
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && code) onJoin(name, code);
+              }}
+              maxLength={ROOM_CODE_LENGTH}
+              placeholder="CODE"
+              aria-label="Room code"
+              className="flex-1 min-w-0 font-comic text-xl tracking-[0.3em] uppercase px-3 py-1 rounded-lg border-2 border-black"
+            />
+            <button
+              onClick={() => onJoin(name, code)}
+              disabled={joining || !code}
+              className="bg-[#33ff33] text-black font-comic text-xl py-1 px-4 rounded-full comic-border hover:bg-[#66ff66] transition-all disabled:opacity-50"
+            >
+              JOIN
+            </button>
+          </div>
+          {joining && <div className="font-comic text-lg text-gray-500">CONNECTING...</div>}
+        </>
+      ) : (
+        <>
+          <div className="font-comic text-sm tracking-widest text-gray-500">ROOM CODE</div>
+          <div className="font-comic text-5xl tracking-[0.3em] bg-[#ffcc00] px-4 py-1 rounded-xl border-2 border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+            {room.code}
+          </div>
+          <p className="font-comic text-sm text-gray-500 mb-2">
+            Share the code; {RACE_MIN_PLAYERS}–{RACE_MAX_PLAYERS} racers. The race starts when everyone is ready.
+          </p>
+          <div className="flex flex-col gap-1.5 w-full">
+            {room.racers.map((racer) => (
+              <div
+                key={racer.id}
+                className={`flex items-center justify-between font-comic text-xl px-3 py-1 rounded-xl border-2 border-black ${racer.ready ? 'bg-[#33ff33]' : 'bg-gray-100'} ${racer.connected ? '' : 'opacity-50'}`}
+              >
+                <span className={`truncate ${racer.id === you ? 'text-[#ff3366]' : ''}`}>
+                  {racer.name}{racer.id === you ? ' (YOU)' : ''}
+                </span>
+                <span className="text-sm">{!racer.connected ? 'AWAY' : racer.ready ? 'READY' : 'WAITING'}</span>
+              </div>
+            ))}
+          </div>
+          {room.phase === 'countdown' ? (
+            <motion.div
+              key={Math.ceil((startsAt - now) / 1000)}
+              initial={{ scale: 1.6, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              className="font-comic text-7xl comic-text text-[#ff3366] my-2"
+            >
+              {Math.max(1, Math.ceil((startsAt - now) / 1000))}
+            </motion.div>
+          ) : status === 'connecting' ? (
+            <div className="font-comic text-lg text-gray-500 my-2">RECONNECTING...</div>
+          ) : null}
+          <div className="flex gap-3 w-full mt-2">
+            <button
+              onClick={onLeave}
+              className="flex-1 bg-gray-200 text-black font-comic text-2xl py-2 rounded-full comic-border hover:bg-gray-300 transition-all"
+            >
+              LEAVE
+            </button>
+            <button
+              onClick={() => onReady(!me?.ready)}
+              disabled={status !== 'connected'}
+              aria-pressed={!!me?.ready}
+              className={`flex-1 text-black font-comic text-2xl py-2 rounded-full comic-border transition-all disabled:opacity-50 ${me?.ready ? 'bg-[#33ff33] hover:bg-[#66ff66]' : 'bg-[#ffcc00] hover:bg-[#ffe066]'}`}
+            >
+              {me?.ready ? 'READY!' : 'READY?'}
+            </button>
+          </div>
+        </>
+      )}
+      {error && <div className="font-comic text-lg text-red-500">{error}</div>}
+      {!room && (
+        <button
+          onClick={onLeave}
+          className="w-full bg-gray-200 text-black font-comic text-2xl py-2 mt-2 rounded-full comic-border hover:bg-gray-300 transition-all"
+        >
+          BACK
+        </button>
+      )}
+    </motion.div>
+  );
+}
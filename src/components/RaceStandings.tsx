@@ -0,0 +1,39 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { RoomView, raceProgress, rankRacers } from '../game/race';
+
+interface RaceStandingsProps {
+  room: RoomView;
+  you: string;
+  compact?: boolean;
+}
+
+const formatFinishTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function RaceStandings({ room, you, compact = false }: RaceStandingsProps) {
+  return (
+    <div className="flex flex-col gap-1.5 w-full">
+      {rankRacers(room.racers).map((racer, i) => (
+        <div
+          key={racer.id}
+          className={`flex items-center gap-2 bg-white rounded-lg border-2 border-black px-2 font-comic ${compact ? 'py-0.5 text-sm' : 'py-1 text-lg'} ${racer.id === you ? 'shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]' : ''} ${racer.connected ? '' : 'opacity-50'}`}
+        >
+          <span className="w-5 text-left">{i + 1}.</span>
+          <span className={`text-left truncate ${compact ? 'w-20' : 'w-24'} ${racer.id === you ? 'text-[#ff3366]' : ''}`}>{racer.name}</span>
+          <div className="flex-1 h-3 bg-gray-100 rounded-full border-2 border-black overflow-hidden">
+            <motion.div
+              className={`h-full ${racer.status === 'won' ? 'bg-[#33ff33]' : racer.status === 'lost' ? 'bg-gray-400' : 'bg-[#ffcc00]'}`}
+              animate={{ width: `${raceProgress(racer, room.targetsTotal) * 100}%` }}
+              transition={{ type: 'spring', stiffness: 80, damping: 15 }}
+            />
+          </div>
+          <span className="w-16 text-right tabular-nums leading-none">
+            {racer.finishTime !== null
+              ? formatFinishTime(racer.finishTime)
+              : !racer.connected ? 'AWAY' : racer.status === 'lost' ? 'OUT' : `${racer.score}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
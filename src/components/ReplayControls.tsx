@@ -0,0 +1,61 @@
+import React from 'react';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  playing: boolean;
+  speed: number;
+  position: number;
+  total: number;
+  desynced: boolean;
+  onTogglePlay: () => void;
+  onStep: () => void;
+  onRestart: () => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export default function ReplayControls({
+  playing,
+  speed,
+  position,
+  total,
+  desynced,
+  onTogglePlay,
+  onStep,
+  onRestart,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  const finished = position >= total;
+  const buttonClass = 'bg-white font-comic text-xl px-3 py-1 rounded-lg comic-border hover:bg-gray-100 active:translate-y-0.5 transition-all disabled:opacity-40';
+
+  return (
+    <div className="w-full max-w-md mt-16 z-10 flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2 bg-black text-white px-3 py-1 rounded-full font-comic tracking-wider">
+        <span className="text-[#ff3366] animate-pulse">●</span>
+        REPLAY · MOVE {position}/{total}
+        {desynced && <span className="text-[#ffcc00] ml-1">OUT OF SYNC</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={onRestart} className={buttonClass} title="Restart">⏮</button>
+        <button onClick={onTogglePlay} disabled={finished && !playing} className={`${buttonClass} bg-[#ffcc00] min-w-[90px]`}>
+          {playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <button onClick={onStep} disabled={finished} className={buttonClass} title="Step">⏭</button>
+        <div className="flex bg-white comic-border rounded-lg overflow-hidden">
+          {REPLAY_SPEEDS.map((s) => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`font-comic text-lg px-2 py-1 transition-colors ${s === speed ? 'bg-black text-white' : 'hover:bg-gray-100'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+        <button onClick={onExit} className={buttonClass}>EXIT</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+
+export type SubmissionState =
+  | { status: 'idle' }
+  | { status: 'pending' }
+  | { status: 'done'; rank: number; total: number }
+  | { status: 'error'; message: string };
+
+interface ScoreSubmissionProps {
+  label: string;
+  playerName: string;
+  submission: SubmissionState;
+  onSubmitName: (name: string) => void;
+}
+
+export default function ScoreSubmission({ label, playerName, submission, onSubmitName }: ScoreSubmissionProps) {
+  const [draft, setDraft] = useState(playerName);
+
+  if (!playerName) {
+    return (
+      <form
+        className="flex gap-2 w-full mb-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (draft.trim()) onSubmitName(draft.trim());
+        }}
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={24}
+          placeholder="YOUR NAME"
+          className="flex-1 min-w-0 font-comic text-xl px-3 py-1 rounded-lg border-4 border-black outline-none focus:bg-yellow-50"
+        />
+        <button type="submit" className="bg-black text-white font-comic text-xl px-4 py-1 rounded-lg hover:bg-gray-800 transition-colors">
+          SUBMIT
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="font-comic text-lg mb-4 tracking-wider">
+      {submission.status === 'pending' && <span className="text-gray-500">SUBMITTING...</span>}
+      {submission.status === 'done' && (
+        <span>
+          {label} RANK <span className="text-[#ff3366] text-2xl">#{submission.rank}</span> OF {submission.total}
+        </span>
+      )}
+      {submission.status === 'error' && <span className="text-gray-400">SCORES OFFLINE</span>}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { motion } from 'motion/react';
+import { MotionSetting, Settings } from '../settings';
+import { PALETTES, PALETTE_ORDER } from '../theme';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+  onClose: () => void;
+}
+
+const MOTION_LABELS: Record<MotionSetting, string> = {
+  system: 'SYSTEM',
+  reduced: 'REDUCED',
+  full: 'FULL',
+};
+
+const canVibrate = typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+export default function SettingsPanel({ settings, onChange, onClose }: SettingsPanelProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toggle = (label: string, key: 'muted' | 'haptics' | 'comicWords' | 'glyphs', disabled = false) => (
+    <button
+      onClick={() => onChange({ [key]: !settings[key] })}
+      disabled={disabled}
+      aria-pressed={settings[key]}
+      className={`w-full flex justify-between items-center font-comic text-lg px-3 py-1 rounded-lg border-2 border-black transition-colors disabled:opacity-40 ${settings[key] ? 'bg-[#33ccff]' : 'bg-white hover:bg-gray-100'}`}
+    >
+      {label}
+      <span>{settings[key] ? 'ON' : 'OFF'}</span>
+    </button>
+  );
+
+  const slider = (label: string, key: 'masterVolume' | 'sfxVolume' | 'musicVolume') => (
+    <label className="w-full flex items-center gap-3 font-comic text-lg">
+      <span className="w-20 text-left">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={Math.round(settings[key] * 100)}
+        onChange={(e) => onChange({ [key]: Number(e.target.value) / 100 })}
+        disabled={settings.muted}
+        className="flex-1 accent-black disabled:opacity-40"
+      />
+      <span className="w-10 text-right">{Math.round(settings[key] * 100)}</span>
+    </label>
+  );
+
+  const choice = <T extends string>(options: T[], current: T, label: (option: T) => string, onSelect: (option: T) => void) => (
+    <div className="w-full flex gap-1">
+      {options.map((option) => (
+        <button
+          key={option}
+          onClick={() => onSelect(option)}
+          aria-pressed={current === option}
+          className={`flex-1 font-comic text-sm sm:text-base py-1 rounded-lg border-2 border-black transition-colors ${current === option ? 'bg-[#ffcc00]' : 'bg-white hover:bg-gray-100'}`}
+        >
+          {label(option)}
+        </button>
+      ))}
+    </div>
+  );
+
+  const heading = (text: string) => <h3 className="w-full text-left font-comic text-sm tracking-widest text-gray-500 mt-2">{text}</h3>;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.8, y: 50 }}
+        animate={{ scale: 1, y: 0 }}
+        role="dialog"
+        aria-label="Settings"
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white p-6 rounded-3xl comic-border max-w-sm w-full max-h-[90dvh] overflow-y-auto flex flex-col items-center gap-2"
+      >
+        <h2 className="font-comic text-5xl comic-text text-[#33ccff] transform -rotate-2 mb-2">SETTINGS</h2>
+
+        {heading('SOUND')}
+        {slider('MASTER', 'masterVolume')}
+        {slider('EFFECTS', 'sfxVolume')}
+        {slider('MUSIC', 'musicVolume')}
+        {toggle('MUTE', 'muted')}
+
+        {heading('FEEDBACK')}
+        {toggle(canVibrate ? 'VIBRATION' : 'VIBRATION (UNSUPPORTED)', 'haptics', !canVibrate)}
+        {toggle('COMIC WORDS', 'comicWords')}
+
+        {heading('MOTION')}
+        {choice<MotionSetting>(['system', 'reduced', 'full'], settings.motion, (m) => MOTION_LABELS[m], (motion) => onChange({ motion }))}
+
+        {heading('COLORS')}
+        {choice(PALETTE_ORDER, settings.palette, (p) => PALETTES[p].label.toUpperCase(), (palette) => onChange({ palette }))}
+        {toggle('SHAPES', 'glyphs')}
+
+        <button
+          onClick={onClose}
+          className="mt-4 bg-[#33ff33] text-black font-comic text-2xl py-2 px-10 rounded-full comic-border hover:bg-[#66ff66] transition-all"
+        >
+          DONE
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface StarRatingProps {
+  stars: number;
+  size?: 'sm' | 'lg';
+}
+
+const STAR_PATH = 'M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z';
+
+export default function StarRating({ stars, size = 'sm' }: StarRatingProps) {
+  const sizeClass = size === 'lg' ? 'w-12 h-12' : 'w-4 h-4';
+  return (
+    <div className="flex items-center justify-center gap-0.5" title={`${stars} of 3 stars`}>
+      {[1, 2, 3].map((n) => (
+        <svg
+          key={n}
+          viewBox="0 0 24 24"
+          className={`${sizeClass} ${size === 'lg' && n === 2 ? '-translate-y-2' : ''}`}
+          fill={n <= stars ? '#ffcc00' : '#e5e7eb'}
+          stroke="black"
+          strokeWidth={size === 'lg' ? 1.5 : 2}
+          strokeLinejoin="round"
+        >
+          <path d={STAR_PATH} />
+        </svg>
+      ))}
+    </div>
+  );
+}
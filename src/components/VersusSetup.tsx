@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { MAX_PLAYERS, MIN_PLAYERS, VERSUS_ROUNDS } from '../game/engine';
+import { PLAYER_COLORS } from '../theme';
+
+interface VersusSetupProps {
+  onStart: (playerCount: number, withTargets: boolean) => void;
+  onClose: () => void;
+}
+
+const PLAYER_COUNTS = Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i);
+
+export default function VersusSetup({ onStart, onClose }: VersusSetupProps) {
+  const [playerCount, setPlayerCount] = useState(MIN_PLAYERS);
+  const [withTargets, setWithTargets] = useState(true);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 z-[60] flex items-center justify-center backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.8, y: 50 }}
+        animate={{ scale: 1, y: 0 }}
+        role="dialog"
+        aria-label="Versus setup"
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white p-6 rounded-3xl comic-border max-w-sm w-full flex flex-col items-center gap-2"
+      >
+        <h2 className="font-comic text-5xl comic-text text-[#ff3366] transform -rotate-2 mb-2">VERSUS</h2>
+
+        <h3 className="w-full text-left font-comic text-sm tracking-widest text-gray-500 mt-2">PLAYERS</h3>
+        <div className="w-full flex gap-1">
+          {PLAYER_COUNTS.map((count) => (
+            <button
+              key={count}
+              onClick={() => setPlayerCount(count)}
+              aria-pressed={playerCount === count}
+              className={`flex-1 font-comic text-xl py-1 rounded-lg border-2 border-black transition-colors ${playerCount === count ? 'bg-[#ffcc00]' : 'bg-white hover:bg-gray-100'}`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 my-2">
+          {PLAYER_COLORS.slice(0, playerCount).map((color, i) => (
+            <div
+              key={color}
+              className="w-10 h-10 rounded-full border-2 border-black flex items-center justify-center font-comic text-sm shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]"
+              style={{ backgroundColor: color }}
+            >
+              P{i + 1}
+            </div>
+          ))}
+        </div>
+
+        <h3 className="w-full text-left font-comic text-sm tracking-widest text-gray-500 mt-2">GOAL</h3>
+        <button
+          onClick={() => setWithTargets((on) => !on)}
+          aria-pressed={withTargets}
+          className={`w-full flex justify-between items-center font-comic text-lg px-3 py-1 rounded-lg border-2 border-black transition-colors ${withTargets ? 'bg-[#33ccff]' : 'bg-white hover:bg-gray-100'}`}
+        >
+          COLOR TARGETS
+          <span>{withTargets ? 'ON' : 'OFF'}</span>
+        </button>
+        <p className="font-comic text-sm text-gray-500 text-left w-full">
+          {withTargets
+            ? `First to clear their targets wins; otherwise the best score after ${VERSUS_ROUNDS} turns each.`
+            : `Best score after ${VERSUS_ROUNDS} turns each wins.`}
+        </p>
+
+        <div className="flex gap-3 w-full mt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-200 text-black font-comic text-2xl py-2 rounded-full comic-border hover:bg-gray-300 transition-all"
+          >
+            BACK
+          </button>
+          <button
+            onClick={() => onStart(playerCount, withTargets)}
+            className="flex-1 bg-[#33ff33] text-black font-comic text-2xl py-2 rounded-full comic-border hover:bg-[#66ff66] transition-all"
+          >
+            START
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,96 @@
+// Monte-Carlo level analysis: plays a level many times with a bot and
+// summarizes how often it's beaten. Everything is seeded, so the same options
+// always produce the same report.
+
+import { LevelConfig, createLevelGame } from './engine';
+import { BOTS, Bot, BotName, playLevel } from './bots';
+import { Rng, createRng, hashSeed } from './rng';
+
+export interface TrialResult {
+  won: boolean;
+  // The board ran out of legal chains before the level ended.
+  stuck: boolean;
+  score: number;
+  movesLeft: number;
+  movesUsed: number;
+}
+
+export const runTrial = (config: LevelConfig, seed: string, bot: Bot): TrialResult => {
+  const { state, movesUsed, stuck } = playLevel(createLevelGame(config, seed), bot, createRng(hashSeed(`${seed}:moves`)));
+  return {
+    won: state.status === 'levelup' || state.status === 'won',
+    stuck,
+    score: state.score,
+    movesLeft: state.moves,
+    movesUsed,
+  };
+};
+
+export interface ScoreSummary {
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  mean: number;
+}
+
+export interface AnalysisReport {
+  runs: number;
+  wins: number;
+  winRate: number;
+  stuckRate: number;
+  // Averaged over won runs only; 0 when nothing was won.
+  avgMovesLeft: number;
+  avgMovesUsed: number;
+  score: ScoreSummary;
+}
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+
+export const summarizeTrials = (trials: TrialResult[]): AnalysisReport => {
+  const wins = trials.filter((t) => t.won);
+  const scores = trials.map((t) => t.score).sort((a, b) => a - b);
+  return {
+    runs: trials.length,
+    wins: wins.length,
+    winRate: trials.length ? wins.length / trials.length : 0,
+    stuckRate: trials.length ? trials.filter((t) => t.stuck).length / trials.length : 0,
+    avgMovesLeft: average(wins.map((t) => t.movesLeft)),
+    avgMovesUsed: average(trials.map((t) => t.movesUsed)),
+    score: {
+      min: scores[0] ?? 0,
+      p25: percentile(scores, 0.25),
+      median: percentile(scores, 0.5),
+      p75: percentile(scores, 0.75),
+      max: scores[scores.length - 1] ?? 0,
+      mean: average(scores),
+    },
+  };
+};
+
+export interface AnalysisOptions {
+  runs?: number;
+  bot?: BotName;
+  seed?: string;
+}
+
+// Procedural levels are passed as a generator so every run rolls its own config.
+export type LevelSource = LevelConfig | ((rng: Rng) => LevelConfig);
+
+export const trialSeed = (seed: string, run: number) => `${seed}-${run}`;
+
+export const resolveLevel = (level: LevelSource, seed: string): LevelConfig =>
+  typeof level === 'function' ? level(createRng(hashSeed(`${seed}:level`))) : level;
+
+export const analyzeLevel = (level: LevelSource, { runs = 200, bot = 'targets', seed = 'ANALYZE' }: AnalysisOptions = {}): AnalysisReport => {
+  const trials: TrialResult[] = [];
+  for (let run = 0; run < runs; run++) {
+    const runSeed = trialSeed(seed, run);
+    trials.push(runTrial(resolveLevel(level, runSeed), runSeed, BOTS[bot]));
+  }
+  return summarizeTrials(trials);
+};
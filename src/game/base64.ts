@@ -0,0 +1,10 @@
+// URL-safe base64 for the payloads we put in links (?replay=, ?level=).
+// btoa/atob exist in browsers and in Node, so this works on the server too.
+
+export const toBase64Url = (text: string): string =>
+  btoa(unescape(encodeURIComponent(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (text: string): string => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return decodeURIComponent(escape(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))));
+};
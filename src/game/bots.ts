@@ -0,0 +1,93 @@
+// Bot players. A bot looks at a state and returns the chain it wants to play,
+// or null when it sees none. Bots only use what a player can see - the board,
+// targets and goals - and never read the refill RNG out of the state, so the
+// lookahead bot samples possible refills instead of knowing the real one.
+
+import { Cell, GameState, commitChain, expandSelection } from './engine';
+import { findChains, forEachChain } from './chains';
+import { findBestChain, rateChain } from './hints';
+import { Rng } from './rng';
+
+export type Bot = (state: GameState, rng: Rng) => Cell[] | null;
+
+export type BotName = 'random' | 'longest' | 'targets' | 'lookahead';
+
+const SEARCH_BUDGET = 10000;
+const LOOKAHEAD_CANDIDATES = 5;
+const LOOKAHEAD_SAMPLES = 3;
+const LOOKAHEAD_BUDGET = 2000;
+// Worth more than any single chain, so a sure level clear always wins.
+const LEVEL_CLEAR_VALUE = 100000;
+
+const longest: Bot = (state) => {
+  let best: Cell[] | null = null;
+  let bestLength = 0;
+  forEachChain(state, (chain) => {
+    const length = expandSelection(state, chain).length;
+    if (length > bestLength) {
+      best = [...chain];
+      bestLength = length;
+    }
+  }, { nodeBudget: SEARCH_BUDGET });
+  return best;
+};
+
+// Rates the most promising chains by what they do now plus the best follow-up
+// on a few sampled refills.
+const lookahead: Bot = (state, rng) => {
+  const rated: { chain: Cell[]; value: number }[] = [];
+  forEachChain(state, (chain) => {
+    rated.push({ chain: [...chain], value: rateChain(state, chain) });
+  }, { nodeBudget: SEARCH_BUDGET });
+  if (rated.length === 0) return null;
+
+  let best = rated[0].chain;
+  let bestValue = -Infinity;
+  rated.sort((a, b) => b.value - a.value).slice(0, LOOKAHEAD_CANDIDATES).forEach(({ chain, value }) => {
+    let future = 0;
+    for (let i = 0; i < LOOKAHEAD_SAMPLES; i++) {
+      const after = commitChain({ ...state, rngState: rng.int(0x100000000) }, chain).state;
+      if (after.status === 'levelup' || after.status === 'won') {
+        future += LEVEL_CLEAR_VALUE;
+      } else if (after.status === 'playing') {
+        const next = findBestChain(after, LOOKAHEAD_BUDGET);
+        if (next) future += rateChain(after, next);
+      }
+    }
+    const total = value + future / LOOKAHEAD_SAMPLES;
+    if (total > bestValue) {
+      best = chain;
+      bestValue = total;
+    }
+  });
+  return best;
+};
+
+export const BOTS: Record<BotName, Bot> = {
+  random: (state, rng) => {
+    const chains = findChains(state);
+    return chains.length > 0 ? rng.pick(chains) : null;
+  },
+  longest,
+  targets: (state) => findBestChain(state),
+  lookahead,
+};
+
+export interface LevelPlay {
+  state: GameState;
+  movesUsed: number;
+  // The bot found nothing to play before the level ended.
+  stuck: boolean;
+}
+
+// Plays the current level to its end (won, lost or level up).
+export const playLevel = (state: GameState, bot: Bot, rng: Rng): LevelPlay => {
+  let movesUsed = 0;
+  while (state.status === 'playing') {
+    const chain = bot(state, rng);
+    if (!chain) return { state, movesUsed, stuck: true };
+    state = commitChain(state, chain).state;
+    movesUsed++;
+  }
+  return { state, movesUsed, stuck: false };
+};
@@ -0,0 +1,66 @@
+// Enumerates legal chains on a board for code that plays without a pointer
+// (the level analyzer, hints). The search is a depth-first walk over the same
+// adjacency and color rules as tryExtendChain, bounded so that boards full of
+// wildcards can't explode it.
+
+import { Board, Cell, canConnect, getChainColor, isSelectable, neighbourCells } from './engine';
+
+export interface ChainSearchOptions {
+  // Chains visited per starting cell; each one is a prefix or branch of the walk.
+  perStart?: number;
+  // Total chains visited.
+  limit?: number;
+  // Cells stepped on across the whole search, shared evenly between starting cells.
+  nodeBudget?: number;
+}
+
+// Calls visit with every chain found. The array is reused by the walk, so copy
+// it to keep it.
+export const forEachChain = (
+  board: Board,
+  visit: (chain: Cell[]) => void,
+  { perStart = Infinity, limit = Infinity, nodeBudget = Infinity }: ChainSearchOptions = {},
+) => {
+  const { grid } = board;
+  const starts: Cell[] = [];
+  grid.forEach((row, r) => row.forEach((_, c) => {
+    if (isSelectable(board, { r, c })) starts.push({ r, c });
+  }));
+  const nodesPerStart = Math.ceil(nodeBudget / Math.max(1, starts.length));
+  let visited = 0;
+
+  const neighbours = (cell: Cell): Cell[] =>
+    neighbourCells(cell, board.rules.adjacency).filter((next) => isSelectable(board, next));
+
+  for (const start of starts) {
+    if (visited >= limit) return;
+    let found = 0;
+    let nodes = 0;
+    const path: Cell[] = [start];
+
+    const walk = () => {
+      if (found >= perStart || visited >= limit || nodes >= nodesPerStart) return;
+      nodes++;
+      if (path.length >= board.rules.minMatch) {
+        visit(path);
+        found++;
+        visited++;
+      }
+      const chainColor = getChainColor(grid, path);
+      for (const next of neighbours(path[path.length - 1])) {
+        if (path.some((p) => p.r === next.r && p.c === next.c)) continue;
+        if (!canConnect(grid[next.r][next.c], chainColor)) continue;
+        path.push(next);
+        walk();
+        path.pop();
+      }
+    };
+    walk();
+  }
+};
+
+export const findChains = (board: Board, { perStart = 8, limit = 200, nodeBudget }: ChainSearchOptions = {}): Cell[][] => {
+  const chains: Cell[][] = [];
+  forEachChain(board, (chain) => chains.push([...chain]), { perStart, limit, nodeBudget });
+  return chains;
+};
@@ -0,0 +1,72 @@
+// The daily challenge: one level a day, generated from the date alone so every
+// player gets the same board, targets and refills without asking a server. A
+// finished attempt is summed up in a short text card to paste into chat.
+
+import { BONUS_LENGTH, GameState, SUPER_BONUS_LENGTH, createGame } from './engine';
+import { Replay, decodeChain } from './replay';
+
+export interface DailyResult {
+  date: string;
+  won: boolean;
+  score: number;
+  stars: number;
+  // Length of every chain played, in order.
+  chains: number[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Days follow the player's own calendar: YYYY-MM-DD in local time.
+export const dailyDate = (now: Date = new Date()): string =>
+  `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+export const isDailyDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const previousDay = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return dailyDate(new Date(year, month - 1, day - 1));
+};
+
+const DAILY_SEED_PREFIX = 'DAILY-';
+
+export const dailySeed = (date: string): string => DAILY_SEED_PREFIX + date;
+
+// The day a daily game's seed was made for.
+export const dailySeedDate = (seed: string): string => seed.slice(DAILY_SEED_PREFIX.length);
+
+export const createDailyGame = (date: string): GameState => createGame(dailySeed(date), 'daily');
+
+// Daily games have no undo, so the recording holds every chain that was played.
+export const summarizeDaily = (date: string, state: GameState, recording: Replay, stars: number): DailyResult => ({
+  date,
+  won: state.status === 'won',
+  score: state.score,
+  stars,
+  // Released short chains are recorded too but popped nothing.
+  chains: recording.levels
+    .flatMap((level) => level.moves.map((move) => decodeChain(move.chain).length))
+    .filter((length) => length >= state.rules.minMatch),
+});
+
+export const longestChain = (result: DailyResult): number => Math.max(0, ...result.chains);
+
+const CHAINS_PER_LINE = 10;
+
+// One square per move: plain chains, bonus chains and super-bonus chains.
+const chainSquare = (length: number) => (length >= SUPER_BONUS_LENGTH ? '🟥' : length >= BONUS_LENGTH ? '🟨' : '🟦');
+
+export const formatShareCard = (result: DailyResult, streak: number): string => {
+  const squares = result.chains.map(chainSquare);
+  const lines: string[] = [];
+  for (let i = 0; i < squares.length; i += CHAINS_PER_LINE) lines.push(squares.slice(i, i + CHAINS_PER_LINE).join(''));
+  const moves = `${result.chains.length} ${result.chains.length === 1 ? 'move' : 'moves'}`;
+  return [
+    `Pop Match Daily ${result.date}`,
+    result.won ? `✅ Cleared in ${moves} ${'⭐'.repeat(result.stars)}` : `❌ Out of moves after ${moves}`,
+    `🏆 ${result.score} points · 🔗 Longest chain ${longestChain(result)}`,
+    `🔥 ${streak}-day streak`,
+    '',
+    ...lines,
+  ].join('\n');
+};
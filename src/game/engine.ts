@@ -0,0 +1,943 @@
+// Headless game rules. Everything here is pure: functions take a state and
+// return a new one plus the events the UI (or a bot, replay, server...) may
+// want to react to. No React, DOM, timers or audio in this module, and every
+// random decision goes through the seeded Rng carried in the state.
+
+import { Rng, createRng, hashSeed } from './rng';
+import { LEVELS, LevelConfig, LevelGoal, TileKind } from './levels';
+import { DEFAULT_POWERUP_RULES, POWERUPS, PowerupDef, PowerupRules, PowerupType, rollPowerup } from './powerups';
+
+export type { LevelConfig, LevelGoal, PowerupRules, PowerupType, TileKind };
+
+export type BasicColor = 'red' | 'blue' | 'yellow' | 'green' | 'purple';
+// 'item' is a drop item: it can't be chained and is collected at the bottom.
+export type BallColor = BasicColor | 'rainbow' | 'special' | 'item';
+
+export interface Ball {
+  id: string;
+  color: BallColor;
+  powerup?: PowerupType;
+}
+
+export interface Cell {
+  r: number;
+  c: number;
+}
+
+export interface Tile {
+  kind: TileKind;
+  // Layers of ice; a ball on an iced tile is frozen in place.
+  ice: number;
+}
+
+export type Grid = (Ball | null)[][];
+export type TileGrid = Tile[][];
+export type Targets = Partial<Record<BasicColor, number>>;
+
+// Which cells a chain may step between: the four orthogonal neighbours, all
+// eight surrounding cells, or the six neighbours on a hex board. Hex boards use
+// "odd-r" offset rows: every odd row sits half a cell to the right.
+export type Adjacency = '4-way' | '8-way' | 'hex';
+
+export interface BoardRules {
+  adjacency: Adjacency;
+  // The shortest chain that pops.
+  minMatch: number;
+  powerups: PowerupRules;
+  // Whether groups that line up after a refill pop on their own.
+  cascade: boolean;
+}
+
+// The parts of the state that describe the board itself. Holes and stones
+// always hold null in the grid.
+export interface Board {
+  grid: Grid;
+  tiles: TileGrid;
+  rules: BoardRules;
+}
+
+// 'won' ends a game for good: the last campaign level, or a custom level, is complete.
+export type GameStatus = 'playing' | 'levelup' | 'won' | 'lost';
+
+// The campaign is the finite list of LEVELS; endless plays generated levels
+// forever; custom is a single level from the editor. Time attack and zen play a
+// single open board for score alone: time attack against a clock, zen until the
+// player stops. The daily challenge is one generated level per calendar day.
+// Versus is a hot-seat game: players take turns on one shared board. In a race,
+// players online each get the same seeded level and race to clear it.
+export type GameMode = 'campaign' | 'endless' | 'timeAttack' | 'zen' | 'daily' | 'versus' | 'race' | 'custom';
+
+// One versus player's own side of the game.
+export interface PlayerState {
+  score: number;
+  targets: Targets;
+  multiplierTurns: number;
+  combo: number;
+  comboMeter: number;
+}
+
+export interface GameState {
+  seed: string;
+  rngState: number;
+  mode: GameMode;
+  level: number;
+  grid: Grid;
+  tiles: TileGrid;
+  rules: BoardRules;
+  score: number;
+  levelStartScore: number;
+  moves: number;
+  targets: Targets;
+  multiplierTurns: number;
+  combo: number;
+  comboMeter: number;
+  goals: LevelGoal[];
+  itemsCollected: number;
+  // Milliseconds left on the time-attack clock; 0 in every other mode.
+  timeLeft: number;
+  // Versus players, empty in every other mode. The player whose turn it is
+  // plays with the state's own score, targets, multiplier and combo, which are
+  // copied back into their entry after every move.
+  players: PlayerState[];
+  turn: number;
+  // Star points needed for two and three stars on this level.
+  starScores: [number, number];
+  status: GameStatus;
+}
+
+export type GameEvent =
+  | { type: 'pop'; cells: Cell[]; color: BallColor }
+  | { type: 'bonus'; cells: Cell[]; color: BallColor }
+  | { type: 'superBonus'; cells: Cell[]; color: BallColor; addedMoves: number }
+  | { type: 'breakout'; cells: Cell[]; points: number; moves: number }
+  // `grid` is the settled board the cascade pops from; cascades follow each
+  // other in step order, each with a bigger multiplier.
+  | { type: 'cascade'; cells: Cell[]; grid: Grid; step: number; multiplier: number; points: number }
+  | { type: 'itemDropped'; cell: Cell }
+  | { type: 'reshuffle' }
+  | { type: 'comboLost' }
+  | { type: 'timeBonus'; seconds: number }
+  | { type: 'turn'; player: number }
+  | { type: 'levelup' }
+  | { type: 'won' }
+  | { type: 'lost' };
+
+export interface CommitResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export const ROWS = 8;
+export const COLS = 5;
+export const MIN_MATCH = 3;
+export const DEFAULT_RULES: BoardRules = { adjacency: '8-way', minMatch: MIN_MATCH, powerups: DEFAULT_POWERUP_RULES, cascade: false };
+export const BONUS_LENGTH = 5;
+export const SUPER_BONUS_LENGTH = 10;
+
+export const BASIC_COLORS: BasicColor[] = ['red', 'blue', 'yellow', 'green', 'purple'];
+
+const COMBO_BREAKOUT_POINTS = 500;
+const COMBO_BREAKOUT_MOVES = 2;
+const SHORT_RELEASE_METER_PENALTY = 15;
+const SHUFFLE_ATTEMPTS = 20;
+// Cascades: same-color groups this big pop, and each step multiplies its points
+// by one more than the last. Hex cells have six neighbours, so their groups must
+// be bigger to pop about as often. The cap only guards against endless luck.
+export const CASCADE_GROUP = 4;
+export const HEX_CASCADE_GROUP = 6;
+const MAX_CASCADES = 20;
+
+// Time attack starts with a minute; long chains, combo breakouts and extra-move
+// powerups put seconds back instead of moves.
+export const TIME_ATTACK_MS = 60_000;
+const BONUS_SECONDS = 2;
+const SUPER_BONUS_SECONDS = 5;
+const BREAKOUT_SECONDS = 5;
+const SECONDS_PER_POWERUP_MOVE = 1;
+
+// Versus lasts a fixed number of turns per player. Turns are shared out evenly,
+// so extra-move powerups don't spawn and bonuses don't grant moves. Target races
+// ask for twice the first endless level's targets, as bombs make them go fast.
+export const VERSUS_ROUNDS = 10;
+const VERSUS_TARGET_SCALE = 2;
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+const VERSUS_POWERUPS: PowerupType[] = ['multiplier', 'bomb'];
+
+// Stars: finishing a level earns one; star points (level score plus a bonus for
+// every move left) above the level's thresholds earn the second and third.
+export const STAR_POINTS_PER_MOVE = 100;
+const DEFAULT_STAR_SCORES_PER_MOVE: [number, number] = [80, 160];
+
+export const starThresholds = (config: LevelConfig): [number, number] =>
+  config.stars ?? [config.moves * DEFAULT_STAR_SCORES_PER_MOVE[0], config.moves * DEFAULT_STAR_SCORES_PER_MOVE[1]];
+
+// Endless levels keep the difficulty curve the levels generated after the
+// original five-level campaign had, whatever the campaign's length now.
+const ENDLESS_CURVE_OFFSET = 5;
+
+export const generateEndlessLevel = (levelIndex: number, rng: Rng): LevelConfig => {
+  const baseTargets = 25 + levelIndex * 5;
+  const numColors = Math.min(5, 3 + Math.floor((ENDLESS_CURVE_OFFSET + levelIndex) / 3));
+
+  const shuffledColors = rng.shuffle(BASIC_COLORS).slice(0, numColors);
+
+  const targets: Targets = {};
+
+  let totalTargets = 0;
+  shuffledColors.forEach((color) => {
+    const count = Math.floor(baseTargets / numColors) + rng.int(5);
+    targets[color] = count;
+    totalTargets += count;
+  });
+
+  const moves = Math.max(12, Math.floor(totalTargets / 3) + 2);
+
+  return { moves, targets };
+};
+
+// The daily level is pitched like a few levels into endless; the day's seed picks
+// how far in, and whether its refills cascade.
+const DAILY_MIN_LEVEL = 3;
+const DAILY_LEVEL_SPREAD = 6;
+const DAILY_CASCADE_CHANCE = 0.3;
+
+export const generateDailyLevel = (rng: Rng): LevelConfig => {
+  const config = generateEndlessLevel(DAILY_MIN_LEVEL + rng.int(DAILY_LEVEL_SPREAD), rng);
+  return rng.next() < DAILY_CASCADE_CHANCE ? { ...config, cascade: true } : config;
+};
+
+// Races play a single level like the third one of endless.
+const RACE_LEVEL = 2;
+
+// The board time attack and zen play on: no targets and no move limit.
+const OPEN_LEVEL: LevelConfig = { moves: 0, targets: {} };
+
+// Modes where every chain costs a move and running out loses.
+export const hasMoveLimit = (mode: GameMode): boolean => mode !== 'timeAttack' && mode !== 'zen';
+
+export const generateLevelConfig = (mode: GameMode, levelIndex: number, rng: Rng): LevelConfig => {
+  if (mode === 'endless') return generateEndlessLevel(levelIndex, rng);
+  if ((mode === 'timeAttack' || mode === 'zen') && levelIndex === 0) return OPEN_LEVEL;
+  if (mode === 'daily' && levelIndex === 0) return generateDailyLevel(rng);
+  if (mode === 'race' && levelIndex === 0) return generateEndlessLevel(RACE_LEVEL, rng);
+  if (mode === 'campaign' && levelIndex < LEVELS.length) return LEVELS[levelIndex];
+  throw new Error(`No level ${levelIndex + 1} in ${mode} mode`);
+};
+
+const ballId = (prefix: string, rng: Rng) => `${prefix}-${rng.int(0x7fffffff).toString(36)}`;
+
+const randomBall = (prefix: string, rng: Rng, powerupChance: number, powerupTypes: PowerupType[]): Ball => {
+  const ball: Ball = { id: ballId(prefix, rng), color: rng.pick(BASIC_COLORS) };
+  const powerup = rollPowerup(powerupChance, powerupTypes, rng);
+  if (powerup) ball.powerup = powerup;
+  return ball;
+};
+
+export const boardRules = (config: LevelConfig): BoardRules => ({
+  adjacency: config.adjacency ?? DEFAULT_RULES.adjacency,
+  minMatch: config.minMatch ?? DEFAULT_RULES.minMatch,
+  powerups: { ...DEFAULT_POWERUP_RULES, ...config.powerups },
+  cascade: config.cascade ?? DEFAULT_RULES.cascade,
+});
+
+// Builds the level's starting board: layout cells are honoured as written and
+// every unspecified ball is rolled like on a plain rectangular board.
+export const generateBoard = (config: LevelConfig, rng: Rng): Board => {
+  const rows = config.rows ?? ROWS;
+  const cols = config.cols ?? COLS;
+  const rules = boardRules(config);
+  const grid: Grid = [];
+  const tiles: TileGrid = [];
+  for (let r = 0; r < rows; r++) {
+    const row: (Ball | null)[] = [];
+    const tileRow: Tile[] = [];
+    for (let c = 0; c < cols; c++) {
+      const spec = config.layout?.[r][c];
+      const tile: Tile = { kind: spec?.tile ?? 'open', ice: spec?.ice ?? 0 };
+      tileRow.push(tile);
+      if (tile.kind !== 'open') {
+        row.push(null);
+      } else if (spec?.ball) {
+        row.push({ id: ballId(`${r}-${c}`, rng), ...spec.ball });
+      } else {
+        row.push(randomBall(`${r}-${c}`, rng, rules.powerups.chance, rules.powerups.types));
+      }
+    }
+    grid.push(row);
+    tiles.push(tileRow);
+  }
+  return { grid, tiles, rules };
+};
+
+// Holes, stones and frozen balls stay put; everything else falls.
+export const isFixed = (tile: Tile): boolean => tile.kind !== 'open' || tile.ice > 0;
+
+// Each column is split into runs of non-fixed cells. Balls settle to the bottom
+// of their run and the gap at the top of the run is refilled. On hex boards a
+// column zigzags half a cell left and right, so balls fall along that zigzag.
+export const applyGravity = ({ grid, tiles, rules }: Board, rng: Rng): Grid => {
+  const { refillChance, types } = rules.powerups;
+  const newGrid = grid.map((row) => [...row]);
+  const rows = newGrid.length;
+  const cols = rows > 0 ? newGrid[0].length : 0;
+
+  for (let c = 0; c < cols; c++) {
+    let r = rows - 1;
+    while (r >= 0) {
+      if (isFixed(tiles[r][c])) {
+        r--;
+        continue;
+      }
+      const bottom = r;
+      while (r >= 0 && !isFixed(tiles[r][c])) r--;
+      const top = r + 1;
+
+      let write = bottom;
+      for (let k = bottom; k >= top; k--) {
+        const ball = newGrid[k][c];
+        if (ball) {
+          newGrid[k][c] = null;
+          newGrid[write][c] = ball;
+          write--;
+        }
+      }
+      for (let k = top; k <= write; k++) {
+        newGrid[k][c] = randomBall(`new-${k}-${c}`, rng, refillChance, types);
+      }
+    }
+  }
+  return newGrid;
+};
+
+// The lowest cell of each column that isn't a hole, if it's an open tile.
+const bottomCell = (tiles: TileGrid, c: number): number | null => {
+  for (let r = tiles.length - 1; r >= 0; r--) {
+    if (tiles[r][c].kind === 'hole') continue;
+    return tiles[r][c].kind === 'open' ? r : null;
+  }
+  return null;
+};
+
+// Drop items that reached the bottom are collected, which can let more fall.
+const collectItems = (board: Board, rng: Rng): { grid: Grid; collected: Cell[] } => {
+  let grid = board.grid;
+  const collected: Cell[] = [];
+  const cols = grid.length > 0 ? grid[0].length : 0;
+  for (;;) {
+    const landed: Cell[] = [];
+    for (let c = 0; c < cols; c++) {
+      const r = bottomCell(board.tiles, c);
+      if (r !== null && grid[r][c]?.color === 'item') landed.push({ r, c });
+    }
+    if (landed.length === 0) return { grid, collected };
+    grid = grid.map((row) => [...row]);
+    landed.forEach(({ r, c }) => {
+      grid[r][c] = null;
+    });
+    collected.push(...landed);
+    grid = applyGravity({ ...board, grid }, rng);
+  }
+};
+
+// Balls fall into the popped cells, drop items are collected and the popped
+// powerups' refill effects run, in chain order.
+const settleBoard = (board: Board, powerups: PowerupDef[], chainColor: BasicColor | null, rng: Rng): { board: Board; collected: Cell[] } => {
+  const { grid: collectedGrid, collected } = collectItems({ ...board, grid: applyGravity(board, rng) }, rng);
+  let grid = collectedGrid;
+  powerups.forEach((powerup) => {
+    if (!powerup.afterRefill) return;
+    const free: Cell[] = [];
+    grid.forEach((row, r) => row.forEach((_, c) => {
+      if (isSelectable({ ...board, grid }, { r, c })) free.push({ r, c });
+    }));
+    grid = powerup.afterRefill(grid, free, chainColor, rng);
+  });
+  return { board: { ...board, grid }, collected };
+};
+
+// What pops on its own after a refill: groups of CASCADE_GROUP or more balls of
+// one color touching orthogonally (HEX_CASCADE_GROUP as neighbours on hex
+// boards), and powerups sitting next to another powerup. Only groups and pairs
+// the refill touched count, i.e. with a ball that wasn't in that cell on the
+// `before` grid; anything already lined up stays for the player. Cells come
+// back in board order.
+export const findCascade = (board: Board, before: Grid): Cell[] => {
+  const { grid, rules } = board;
+  // Gravity moves balls as they are and refills add new ones, so a cell changed
+  // when it holds a different ball object.
+  const changed = ({ r, c }: Cell) => grid[r][c] !== before[r]?.[c];
+  const hex = rules.adjacency === 'hex';
+  const adjacency: Adjacency = hex ? 'hex' : '4-way';
+  const minGroup = hex ? HEX_CASCADE_GROUP : CASCADE_GROUP;
+  const key = ({ r, c }: Cell) => `${r},${c}`;
+  const popping = new Set<string>();
+  const seen = new Set<string>();
+
+  grid.forEach((row, r) => row.forEach((ball, c) => {
+    const start = { r, c };
+    if (seen.has(key(start)) || !isSelectable(board, start) || isWildcard(ball)) return;
+    seen.add(key(start));
+    const group = [start];
+    for (let i = 0; i < group.length; i++) {
+      neighbourCells(group[i], adjacency).forEach((next) => {
+        if (seen.has(key(next)) || !isSelectable(board, next) || grid[next.r][next.c]!.color !== ball!.color) return;
+        seen.add(key(next));
+        group.push(next);
+      });
+    }
+    if (group.length >= minGroup && group.some(changed)) group.forEach((cell) => popping.add(key(cell)));
+  }));
+
+  grid.forEach((row, r) => row.forEach((ball, c) => {
+    if (!ball?.powerup || !isSelectable(board, { r, c })) return;
+    if (neighbourCells({ r, c }, rules.adjacency).some((next) =>
+      isSelectable(board, next) && !!grid[next.r][next.c]!.powerup && (changed({ r, c }) || changed(next)))) {
+      popping.add(key({ r, c }));
+    }
+  }));
+
+  const cells: Cell[] = [];
+  grid.forEach((row, r) => row.forEach((_, c) => {
+    if (popping.has(key({ r, c }))) cells.push({ r, c });
+  }));
+  return cells;
+};
+
+// Whether any chain can still be drawn. Every longer chain starts with a legal
+// minMatch-long one, so a walk that deep is enough.
+export const hasAvailableChain = (board: Board): boolean => {
+  const { grid, rules } = board;
+  const extend = (path: Cell[]): boolean => {
+    if (path.length >= rules.minMatch) return true;
+    const chainColor = getChainColor(grid, path);
+    for (const next of neighbourCells(path[path.length - 1], rules.adjacency)) {
+      if (!isSelectable(board, next)) continue;
+      if (path.some((p) => p.r === next.r && p.c === next.c)) continue;
+      if (canConnect(grid[next.r][next.c], chainColor) && extend([...path, next])) return true;
+    }
+    return false;
+  };
+  return grid.some((row, r) => row.some((_, c) => isSelectable(board, { r, c }) && extend([{ r, c }])));
+};
+
+// A path of `length` distinct free cells (indexes into cells), each adjacent to
+// the previous one, searched from a random start.
+const findFreePath = (cells: Cell[], length: number, adjacency: Adjacency, rng: Rng): number[] | null => {
+  const order = rng.shuffle(cells.map((_, i) => i));
+  const walk = (path: number[]): number[] | null => {
+    if (path.length === length) return path;
+    const last = cells[path[path.length - 1]];
+    for (const i of order) {
+      if (path.includes(i) || !isAdjacent(last, cells[i], adjacency)) continue;
+      const found = walk([...path, i]);
+      if (found) return found;
+    }
+    return null;
+  };
+  for (const start of order) {
+    const found = walk([start]);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Last resort for reshuffleBoard: lay the most common color (topped up with
+// wildcards) along a free path and shuffle the rest around it. Only when the
+// board doesn't hold minMatch connectable balls at all are some recolored.
+const forceChain = (cells: Cell[], balls: Ball[], rules: BoardRules, rng: Rng): Ball[] => {
+  const { minMatch } = rules;
+  const path = findFreePath(cells, minMatch, rules.adjacency, rng);
+  if (!path) return rng.shuffle(balls);
+
+  const matching = BASIC_COLORS
+    .map((color) => balls.filter((ball) => ball.color === color))
+    .reduce((best, group) => (group.length > best.length ? group : best));
+  const chain = [...matching, ...balls.filter((ball) => isWildcard(ball))].slice(0, minMatch);
+  const others = rng.shuffle(balls.filter((ball) => !chain.includes(ball)));
+  while (chain.length < minMatch) chain.push({ ...others.shift()!, color: matching[0]?.color ?? 'red' });
+
+  return cells.map((_, i) => (path.includes(i) ? chain[path.indexOf(i)] : others.shift()!));
+};
+
+// Rearranges the free balls until a chain exists. Frozen balls, stones and drop
+// items stay where they are; every ball keeps its color and powerup.
+export const reshuffleBoard = ({ grid, tiles, rules }: Board, rng: Rng): Grid => {
+  const cells: Cell[] = [];
+  grid.forEach((row, r) => row.forEach((ball, c) => {
+    if (ball && ball.color !== 'item' && !isFixed(tiles[r][c])) cells.push({ r, c });
+  }));
+  const balls = cells.map(({ r, c }) => grid[r][c]!);
+  const place = (order: Ball[]) => {
+    const next = grid.map((row) => [...row]);
+    cells.forEach(({ r, c }, i) => {
+      next[r][c] = order[i];
+    });
+    return next;
+  };
+
+  for (let attempt = 0; attempt < SHUFFLE_ATTEMPTS; attempt++) {
+    const next = place(rng.shuffle(balls));
+    if (hasAvailableChain({ grid: next, tiles, rules })) return next;
+  }
+  return place(forceChain(cells, balls, rules, rng));
+};
+
+// Every frozen tile next to a popped cell loses one layer of ice.
+const crackIce = (tiles: TileGrid, popped: Cell[], adjacency: Adjacency): TileGrid =>
+  tiles.map((row, r) => row.map((tile, c) => (
+    tile.ice > 0 && popped.some((p) => isAdjacent(p, { r, c }, adjacency)) ? { ...tile, ice: tile.ice - 1 } : tile
+  )));
+
+type LevelCarry = Pick<GameState, 'seed' | 'rngState' | 'mode' | 'score' | 'combo' | 'comboMeter'>;
+
+const startLevel = (level: number, carry: LevelCarry, custom?: LevelConfig): GameState => {
+  const rng = createRng(carry.rngState);
+  const config = custom ?? generateLevelConfig(carry.mode, level, rng);
+  const board = generateBoard(config, rng);
+  const { tiles, rules } = board;
+  const grid = hasAvailableChain(board) ? board.grid : reshuffleBoard(board, rng);
+  return {
+    seed: carry.seed,
+    rngState: rng.state,
+    mode: carry.mode,
+    level,
+    grid,
+    tiles,
+    rules,
+    score: carry.score,
+    levelStartScore: carry.score,
+    moves: config.moves,
+    targets: { ...config.targets },
+    multiplierTurns: 0,
+    combo: carry.combo,
+    comboMeter: carry.comboMeter,
+    goals: config.goals ?? [],
+    itemsCollected: 0,
+    timeLeft: carry.mode === 'timeAttack' ? TIME_ATTACK_MS : 0,
+    players: [],
+    turn: 0,
+    starScores: starThresholds(config),
+    status: 'playing',
+  };
+};
+
+// The same seed always yields the same boards, refills and generated levels,
+// as long as the same chains are committed. Campaign games may start at any
+// unlocked level.
+export const createGame = (seed: string, mode: Exclude<GameMode, 'custom' | 'versus'> = 'campaign', level = 0): GameState =>
+  startLevel(level, { seed, rngState: hashSeed(seed), mode, score: 0, combo: 0, comboMeter: 0 });
+
+// A one-off game on a given level instead of the campaign (editor play-tests).
+export const createLevelGame = (config: LevelConfig, seed: string): GameState =>
+  startLevel(0, { seed, rngState: hashSeed(seed), mode: 'custom', score: 0, combo: 0, comboMeter: 0 }, config);
+
+const playerOf = ({ score, targets, multiplierTurns, combo, comboMeter }: GameState): PlayerState =>
+  ({ score, targets, multiplierTurns, combo, comboMeter });
+
+const versusTargets = (rng: Rng): Targets => {
+  const { targets } = generateEndlessLevel(0, rng);
+  return Object.fromEntries(Object.entries(targets).map(([color, count]) => [color, count * VERSUS_TARGET_SCALE]));
+};
+
+// A versus game on a generated board. With targets, every player races to
+// collect the same colors.
+export const createVersusGame = (seed: string, playerCount: number, withTargets: boolean): GameState => {
+  const rng = createRng(hashSeed(seed));
+  const config: LevelConfig = {
+    moves: VERSUS_ROUNDS * playerCount,
+    targets: withTargets ? versusTargets(rng) : {},
+    powerups: { types: VERSUS_POWERUPS },
+  };
+  const state = startLevel(0, { seed, rngState: rng.state, mode: 'versus', score: 0, combo: 0, comboMeter: 0 }, config);
+  return { ...state, players: Array.from({ length: playerCount }, () => ({ ...playerOf(state), targets: { ...state.targets } })) };
+};
+
+// Score and combo carry over between levels; the board, moves and targets don't.
+export const nextLevel = (state: GameState): GameState => startLevel(state.level + 1, state);
+
+export const isWildcard = (ball: Ball | null): boolean =>
+  !!ball && (ball.color === 'rainbow' || ball.color === 'special');
+
+const SQUARE_OFFSETS: Record<'4-way' | '8-way', [number, number][]> = {
+  '4-way': [[-1, 0], [0, -1], [0, 1], [1, 0]],
+  '8-way': [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]],
+};
+
+// Hex neighbours depend on whether the row is shifted: [even rows, odd rows].
+const HEX_OFFSETS: [number, number][][] = [
+  [[-1, -1], [-1, 0], [0, -1], [0, 1], [1, -1], [1, 0]],
+  [[-1, 0], [-1, 1], [0, -1], [0, 1], [1, 0], [1, 1]],
+];
+
+// Every cell a chain could step to from this one; may include cells off the board.
+export const neighbourCells = ({ r, c }: Cell, adjacency: Adjacency): Cell[] => {
+  const offsets = adjacency === 'hex' ? HEX_OFFSETS[Math.abs(r) % 2] : SQUARE_OFFSETS[adjacency];
+  return offsets.map(([dr, dc]) => ({ r: r + dr, c: c + dc }));
+};
+
+export const isAdjacent = (a: Cell, b: Cell, adjacency: Adjacency): boolean => {
+  const dr = Math.abs(a.r - b.r);
+  const dc = Math.abs(a.c - b.c);
+  switch (adjacency) {
+    case '4-way':
+      return dr + dc === 1;
+    case '8-way':
+      return dr <= 1 && dc <= 1 && dr + dc > 0;
+    case 'hex':
+      return neighbourCells(a, 'hex').some((n) => n.r === b.r && n.c === b.c);
+  }
+};
+
+// The first non-wildcard color in the chain, or null while it's all rainbows/specials.
+export const getChainColor = (grid: Grid, selection: Cell[]): BasicColor | null => {
+  for (const s of selection) {
+    const b = grid[s.r][s.c];
+    if (b && !isWildcard(b)) return b.color as BasicColor;
+  }
+  return null;
+};
+
+export const canConnect = (ball: Ball | null, chainColor: BallColor | null): boolean => {
+  if (!ball || ball.color === 'item') return false;
+  if (isWildcard(ball)) return true;
+  return !chainColor || ball.color === chainColor;
+};
+
+// Whether a chain may start on or pass through this cell.
+export const isSelectable = ({ grid, tiles }: Board, { r, c }: Cell): boolean =>
+  r >= 0 && r < grid.length && c >= 0 && c < grid[r].length &&
+  !isFixed(tiles[r][c]) && !!grid[r][c] && grid[r][c]!.color !== 'item';
+
+// Returns the selection after the pointer enters (r, c): stepping back onto the
+// second-to-last cell shortens the chain, a matching neighbour extends it, and
+// anything else leaves it as is (the same array instance is returned).
+export const tryExtendChain = (board: Board, selection: Cell[], cell: Cell): Cell[] => {
+  const { grid, rules } = board;
+  if (selection.length === 0) return selection;
+  const last = selection[selection.length - 1];
+
+  if (selection.length > 1) {
+    const secondLast = selection[selection.length - 2];
+    if (secondLast.r === cell.r && secondLast.c === cell.c) {
+      return selection.slice(0, -1);
+    }
+  }
+
+  if (selection.some((s) => s.r === cell.r && s.c === cell.c)) {
+    return selection;
+  }
+
+  if (isAdjacent(last, cell, rules.adjacency) && isSelectable(board, cell) && canConnect(grid[cell.r][cell.c], getChainColor(grid, selection))) {
+    return [...selection, { r: cell.r, c: cell.c }];
+  }
+
+  return selection;
+};
+
+// True when the chain could have been drawn cell by cell on this board. The UI
+// only ever builds chains through tryExtendChain; this is for untrusted input.
+export const isValidChain = (board: Board, chain: Cell[]): boolean => {
+  if (chain.length < board.rules.minMatch) return false;
+  if (!chain.every(({ r, c }) => Number.isInteger(r) && Number.isInteger(c))) return false;
+  if (!isSelectable(board, chain[0])) return false;
+
+  let selection: Cell[] = [chain[0]];
+  for (const cell of chain.slice(1)) {
+    const next = tryExtendChain(board, selection, cell);
+    if (next.length !== selection.length + 1) return false;
+    selection = next;
+  }
+  return true;
+};
+
+// The chain's powerups, in chain order.
+export const chainPowerups = (grid: Grid, selection: Cell[]): { cell: Cell; type: PowerupType }[] =>
+  selection.flatMap((cell) => {
+    const type = grid[cell.r][cell.c]?.powerup;
+    return type ? [{ cell, type }] : [];
+  });
+
+// Powerups that clear cells (bombs, lines, blasts) extend the chain with every
+// free ball they reach, in board order.
+export const expandSelection = (board: Board, selection: Cell[]): Cell[] => {
+  const { grid } = board;
+  const chainColor = getChainColor(grid, selection);
+  const reached = new Set<string>();
+  chainPowerups(grid, selection).forEach(({ cell, type }) => {
+    POWERUPS[type].clears?.(board, cell, chainColor).forEach(({ r, c }) => reached.add(`${r},${c}`));
+  });
+  const finalSelection = [...selection];
+  if (reached.size === 0) return finalSelection;
+
+  const chosen = new Set(selection.map(({ r, c }) => `${r},${c}`));
+  for (let r = 0; r < grid.length; r++) {
+    for (let c = 0; c < grid[r].length; c++) {
+      const key = `${r},${c}`;
+      if (reached.has(key) && !chosen.has(key) && isSelectable(board, { r, c })) {
+        finalSelection.push({ r, c });
+      }
+    }
+  }
+  return finalSelection;
+};
+
+export const scoreChain = (length: number, multiplierActive: boolean): number => {
+  let bonusMultiplier = length >= SUPER_BONUS_LENGTH ? 4 : (length >= BONUS_LENGTH ? 2 : 1);
+  if (multiplierActive) bonusMultiplier *= 2;
+  return length * 10 * bonusMultiplier;
+};
+
+const isOtherColor = (ball: Ball | null, chainColor: BasicColor | null): boolean =>
+  !!ball && !isWildcard(ball) && ball.color !== chainColor;
+
+export const applyTargets = (targets: Targets, grid: Grid, cleared: Cell[], chainColor: BasicColor | null): Targets => {
+  const newTargets = { ...targets };
+  const usedRainbow = cleared.some(s => grid[s.r][s.c]?.color === 'rainbow');
+  const usedSpecial = cleared.some(s => grid[s.r][s.c]?.color === 'special');
+
+  if (usedRainbow) {
+    // Rainbow contributes to ALL targets!
+    (Object.keys(newTargets) as BasicColor[]).forEach(c => {
+      newTargets[c] = Math.max(0, newTargets[c]! - cleared.length);
+    });
+  } else if (chainColor && newTargets[chainColor] !== undefined) {
+    // Special ball doubles the impact on the target!
+    const multiplier = usedSpecial ? 2 : 1;
+    const matching = cleared.filter(s => !isOtherColor(grid[s.r][s.c], chainColor)).length;
+    newTargets[chainColor] = Math.max(0, newTargets[chainColor]! - matching * multiplier);
+  }
+  if (!usedRainbow) {
+    // Balls of other colors caught by a line or blast count for their own color.
+    cleared.forEach(({ r, c }) => {
+      const color = grid[r][c]?.color as BasicColor;
+      if (isOtherColor(grid[r][c], chainColor) && newTargets[color] !== undefined) {
+        newTargets[color] = Math.max(0, newTargets[color]! - 1);
+      }
+    });
+  }
+  return newTargets;
+};
+
+export const isGoalMet = (state: GameState, goal: LevelGoal): boolean => {
+  switch (goal.type) {
+    case 'score':
+      return state.score - state.levelStartScore >= goal.score;
+    case 'clearIce':
+      return state.tiles.every((row) => row.every((tile) => tile.ice === 0));
+    case 'dropItems':
+      return state.itemsCollected >= goal.count;
+  }
+};
+
+export const targetsLeft = (targets: Targets): number =>
+  Object.values(targets).reduce((total, count) => total + (count ?? 0), 0);
+
+export const isLevelComplete = (state: GameState): boolean =>
+  Object.values(state.targets).every(count => count === 0) &&
+  state.goals.every((goal) => isGoalMet(state, goal));
+
+const isFinalLevel = (state: GameState): boolean =>
+  state.mode === 'custom' || state.mode === 'daily' || state.mode === 'race' || (state.mode === 'campaign' && state.level === LEVELS.length - 1);
+
+export const isTargetRace = (state: GameState): boolean => Object.keys(state.targets).length > 0;
+
+export const evaluateStatus = (state: GameState): GameStatus => {
+  if (state.mode === 'zen') return 'playing';
+  // Versus ends when the player moving clears their targets, or when the turns run out.
+  if (state.mode === 'versus') return (isTargetRace(state) && isLevelComplete(state)) || state.moves <= 0 ? 'won' : 'playing';
+  if (state.mode === 'timeAttack') return state.timeLeft > 0 ? 'playing' : 'lost';
+  if (isLevelComplete(state)) return isFinalLevel(state) ? 'won' : 'levelup';
+  if (state.moves <= 0) return 'lost';
+  return 'playing';
+};
+
+// Resolves a released chain. Chains shorter than the level's minMatch (or any
+// chain once the level is over) leave the state untouched and produce no events;
+// letting go of a short chain is releaseShortChain. On cascade levels the
+// refilled board keeps resolving until nothing lines up.
+export const commitChain = (state: GameState, selection: Cell[]): CommitResult => {
+  const { grid, tiles, rules } = state;
+  if (state.status !== 'playing' || selection.length < rules.minMatch) return { state, events: [] };
+  const firstBall = grid[selection[0].r][selection[0].c];
+  if (!firstBall) return { state, events: [] };
+
+  const events: GameEvent[] = [];
+  const chainColor = getChainColor(grid, selection);
+
+  const activated = chainPowerups(grid, selection).map(({ type }) => POWERUPS[type]);
+  let addedMoves = activated.reduce((total, powerup) => total + (powerup.moves ?? 0), 0);
+  const multiplierTurns = Math.max(0, ...activated.map((powerup) => powerup.multiplierTurns ?? 0));
+  const activatedMultiplier = multiplierTurns > 0;
+
+  const finalSelection = expandSelection(state, selection);
+  const color = firstBall.color;
+  const isBonus = finalSelection.length >= BONUS_LENGTH;
+  const isSuperBonus = finalSelection.length >= SUPER_BONUS_LENGTH;
+
+  // Events report the moves actually granted, which is none without a move
+  // limit or in versus.
+  const movesGranted = (count: number) => (hasMoveLimit(state.mode) && state.mode !== 'versus' ? count : 0);
+  let powerupMoves = addedMoves;
+  let bonusSeconds = isSuperBonus ? SUPER_BONUS_SECONDS : isBonus ? BONUS_SECONDS : 0;
+
+  if (isSuperBonus) {
+    addedMoves += 1; // Give +1 move for 10+ combo
+    events.push({ type: 'superBonus', cells: finalSelection, color, addedMoves: movesGranted(1) });
+  } else if (isBonus) {
+    events.push({ type: 'bonus', cells: finalSelection, color });
+  } else {
+    events.push({ type: 'pop', cells: finalSelection, color });
+  }
+
+  const doubled = state.multiplierTurns > 0 || activatedMultiplier;
+  let score = state.score + scoreChain(finalSelection.length, doubled);
+
+  // Combo logic
+  let comboMeter = state.comboMeter + Math.min(25, 10 + (finalSelection.length - 3) * 5);
+  if (comboMeter >= 100) {
+    score += COMBO_BREAKOUT_POINTS;
+    addedMoves += COMBO_BREAKOUT_MOVES;
+    bonusSeconds += BREAKOUT_SECONDS;
+    comboMeter = 0;
+    events.push({ type: 'breakout', cells: finalSelection, points: COMBO_BREAKOUT_POINTS, moves: movesGranted(COMBO_BREAKOUT_MOVES) });
+  }
+
+  const rng = createRng(state.rngState);
+  const newGrid = grid.map((row) => [...row]);
+  finalSelection.forEach(({ r, c }) => {
+    newGrid[r][c] = null;
+  });
+
+  // Create special/rainbow at the end of ORIGINAL selection
+  const lastSelected = selection[selection.length - 1];
+  if (isSuperBonus) {
+    newGrid[lastSelected.r][lastSelected.c] = { id: ballId('rainbow', rng), color: 'rainbow' };
+  } else if (isBonus) {
+    newGrid[lastSelected.r][lastSelected.c] = { id: ballId('special', rng), color: 'special' };
+  }
+  const newTiles = crackIce(tiles, finalSelection, rules.adjacency);
+  const settled = settleBoard({ grid: newGrid, tiles: newTiles, rules }, activated, chainColor, rng);
+  settled.collected.forEach((cell) => events.push({ type: 'itemDropped', cell }));
+  let board = settled.board;
+  // The board each refill landed on, for telling which cells it changed.
+  let refilledFrom = grid;
+  let itemsCollected = state.itemsCollected + settled.collected.length;
+  let targets = applyTargets(state.targets, grid, finalSelection, chainColor);
+  let turnsLeft = activatedMultiplier ? multiplierTurns : Math.max(0, state.multiplierTurns - 1);
+
+  // Cascades are part of the same move: they don't touch the combo, but their
+  // powerups fire like a chain's would.
+  for (let step = 1; rules.cascade && step <= MAX_CASCADES; step++) {
+    const group = findCascade(board, refilledFrom);
+    if (group.length === 0) break;
+    const cascadeColor = getChainColor(board.grid, group);
+    const cells = expandSelection(board, group);
+    const powerups = chainPowerups(board.grid, group).map(({ type }) => POWERUPS[type]);
+    const cascadeTurns = Math.max(0, ...powerups.map((powerup) => powerup.multiplierTurns ?? 0));
+    const cascadeMoves = powerups.reduce((total, powerup) => total + (powerup.moves ?? 0), 0);
+    addedMoves += cascadeMoves;
+    powerupMoves += cascadeMoves;
+    turnsLeft = Math.max(turnsLeft, cascadeTurns);
+
+    const multiplier = step + 1;
+    const points = scoreChain(cells.length, doubled || cascadeTurns > 0) * multiplier;
+    score += points;
+    targets = applyTargets(targets, board.grid, cells, cascadeColor);
+    events.push({ type: 'cascade', cells, grid: board.grid, step, multiplier, points });
+
+    const popped = board.grid.map((row) => [...row]);
+    cells.forEach(({ r, c }) => {
+      popped[r][c] = null;
+    });
+    const result = settleBoard({ grid: popped, tiles: crackIce(board.tiles, cells, rules.adjacency), rules }, powerups, cascadeColor, rng);
+    result.collected.forEach((cell) => events.push({ type: 'itemDropped', cell }));
+    itemsCollected += result.collected.length;
+    refilledFrom = board.grid;
+    board = result.board;
+  }
+
+  bonusSeconds += powerupMoves * SECONDS_PER_POWERUP_MOVE;
+  const timed = state.mode === 'timeAttack';
+  if (timed && bonusSeconds > 0) events.push({ type: 'timeBonus', seconds: bonusSeconds });
+
+  let next: GameState = {
+    ...state,
+    rngState: rng.state,
+    grid: board.grid,
+    tiles: board.tiles,
+    score,
+    moves: hasMoveLimit(state.mode) ? state.moves - 1 + movesGranted(addedMoves) : state.moves,
+    timeLeft: timed ? state.timeLeft + bonusSeconds * 1000 : state.timeLeft,
+    targets,
+    multiplierTurns: turnsLeft,
+    combo: state.combo + 1,
+    comboMeter,
+    itemsCollected,
+  };
+  next.status = evaluateStatus(next);
+  if (next.mode === 'versus') {
+    next = passTurn(next);
+    if (next.status === 'playing') events.push({ type: 'turn', player: next.turn });
+  }
+  if (next.status === 'playing' && !hasAvailableChain(next)) {
+    next.grid = reshuffleBoard(next, rng);
+    next.rngState = rng.state;
+    events.push({ type: 'reshuffle' });
+  }
+  if (next.status === 'levelup') events.push({ type: 'levelup' });
+  else if (next.status === 'won') events.push({ type: 'won' });
+  else if (next.status === 'lost') events.push({ type: 'lost' });
+
+  return { state: next, events };
+};
+
+// A chain let go before it reached minMatch pops nothing but breaks the combo.
+export const isShortChain = (state: GameState, chain: Cell[]): boolean =>
+  chain.length > 0 && chain.length < state.rules.minMatch;
+
+export const releaseShortChain = (state: GameState): CommitResult => {
+  if (state.status !== 'playing') return { state, events: [] };
+  const comboMeter = Math.max(0, state.comboMeter - SHORT_RELEASE_METER_PENALTY);
+  return { state: { ...state, combo: 0, comboMeter }, events: [{ type: 'comboLost' }] };
+};
+
+// Files the versus player who just moved and hands the board to the next one.
+// A finished game stays with the player who ended it.
+const passTurn = (state: GameState): GameState => {
+  const players = state.players.map((player, i) => (i === state.turn ? playerOf(state) : player));
+  if (state.status !== 'playing') return { ...state, players };
+  const turn = (state.turn + 1) % players.length;
+  return { ...state, ...players[turn], players, turn };
+};
+
+// The players who won a finished versus game: whoever cleared their targets,
+// or everyone tied on the best score once the turns ran out.
+export const versusWinners = (state: GameState): number[] => {
+  if (state.mode !== 'versus' || state.status !== 'won') return [];
+  if (isTargetRace(state) && isLevelComplete(state)) return [state.turn];
+  const best = Math.max(...state.players.map((player) => player.score));
+  return state.players.flatMap((player, i) => (player.score === best ? [i] : []));
+};
+
+// Runs the time-attack clock; the caller measures the real time that passed
+// while the board was in play. Running out ends the game.
+export const tickClock = (state: GameState, elapsedMs: number): CommitResult => {
+  if (state.mode !== 'timeAttack' || state.status !== 'playing') return { state, events: [] };
+  const next = { ...state, timeLeft: Math.max(0, state.timeLeft - elapsedMs) };
+  next.status = evaluateStatus(next);
+  return { state: next, events: next.status === 'lost' ? [{ type: 'lost' }] : [] };
+};
+
+// Zen games only end when the player stops; the score stands as it is.
+export const endSession = (state: GameState): CommitResult => {
+  if (state.mode !== 'zen' || state.status !== 'playing') return { state, events: [] };
+  return { state: { ...state, status: 'won' }, events: [{ type: 'won' }] };
+};
+
+// 1-3 stars for a completed level, 0 while it isn't. Score modes and versus aren't rated.
+export const rateLevel = (state: GameState): number => {
+  if (!hasMoveLimit(state.mode) || state.mode === 'versus' || (state.status !== 'levelup' && state.status !== 'won')) return 0;
+  const points = state.score - state.levelStartScore + state.moves * STAR_POINTS_PER_MOVE;
+  return 1 + state.starScores.filter((threshold) => points >= threshold).length;
+};
@@ -0,0 +1,69 @@
+// Picks the chain a hint should suggest. Chains are rated from the current
+// board only (no peeking at the refill): points, target progress, powerups,
+// the cells they clear, the specials and rainbows long chains leave behind, and
+// ice.
+
+import {
+  BONUS_LENGTH,
+  Cell,
+  GameState,
+  SUPER_BONUS_LENGTH,
+  applyTargets,
+  chainPowerups,
+  expandSelection,
+  getChainColor,
+  neighbourCells,
+  scoreChain,
+  targetsLeft,
+} from './engine';
+import { forEachChain } from './chains';
+import { POWERUPS } from './powerups';
+
+// Enough to cover every chain on a normal board. Rating them all can take more
+// than a frame on a big one, so the game runs hints in a worker (src/search.ts).
+const HINT_NODE_BUDGET = 10000;
+
+const TARGET_VALUE = 40;
+const EXTRA_MOVE_VALUE = 120;
+const MULTIPLIER_VALUE = 150;
+// Board-changing powerups (convert, shuffle) whose payoff depends on the refill.
+const REFILL_EFFECT_VALUE = 80;
+const SPECIAL_VALUE = 100;
+const RAINBOW_VALUE = 300;
+const ICE_VALUE = 30;
+
+export const rateChain = (state: GameState, chain: Cell[]): number => {
+  const { grid, tiles } = state;
+  const cleared = expandSelection(state, chain);
+  const powerups = chainPowerups(grid, chain).map(({ type }) => POWERUPS[type]);
+  const activatesMultiplier = powerups.some((powerup) => powerup.multiplierTurns);
+
+  let value = scoreChain(cleared.length, state.multiplierTurns > 0 || activatesMultiplier);
+  value += (targetsLeft(state.targets) - targetsLeft(applyTargets(state.targets, grid, cleared, getChainColor(grid, chain)))) * TARGET_VALUE;
+  value += powerups.reduce((total, powerup) => total + (powerup.moves ?? 0), 0) * EXTRA_MOVE_VALUE;
+  if (activatesMultiplier && state.multiplierTurns === 0) value += MULTIPLIER_VALUE;
+  value += powerups.filter((powerup) => powerup.afterRefill).length * REFILL_EFFECT_VALUE;
+  if (cleared.length >= SUPER_BONUS_LENGTH) value += RAINBOW_VALUE + EXTRA_MOVE_VALUE;
+  else if (cleared.length >= BONUS_LENGTH) value += SPECIAL_VALUE;
+
+  const cracked = new Set<string>();
+  cleared.forEach((cell) => {
+    neighbourCells(cell, state.rules.adjacency).forEach(({ r, c }) => {
+      if (tiles[r]?.[c]?.ice > 0) cracked.add(`${r},${c}`);
+    });
+  });
+  return value + cracked.size * ICE_VALUE;
+};
+
+export const findBestChain = (state: GameState, nodeBudget = HINT_NODE_BUDGET): Cell[] | null => {
+  let best: Cell[] | null = null;
+  let bestValue = -Infinity;
+  forEachChain(state, (chain) => {
+    const value = rateChain(state, chain);
+    if (value > bestValue) {
+      best = [...chain];
+      bestValue = value;
+    }
+  }, { nodeBudget });
+  return best;
+};
@@ -0,0 +1,292 @@
+// The JSON level format. Designers author levels as plain JSON (see
+// src/levels/campaign.json); parseLevel validates one and normalizes it into the
+// LevelConfig the engine plays.
+//
+// {
+//   "name": "Cold Snap",              optional, shown on the board
+//   "moves": 20,
+//   "targets": { "blue": 15 },        colors to pop, may be empty
+//   "rows": 8, "cols": 5,             optional, implied by "layout"
+//   "adjacency": "4-way",             optional: "8-way" (default), "4-way" or "hex"
+//   "minMatch": 4,                    optional shortest chain, 2-6 (default 3)
+//   "powerups": { "types": ["line"] } optional powerup rules, see below
+//   "cascade": true,                  optional, refills can pop on their own
+//   "layout": [". . ~r . .", ...],    optional, one string per row
+//   "goals": [{ "type": "clearIce" }] optional extra win conditions
+//   "stars": [1600, 3200]             optional star points for 2 and 3 stars
+// }
+//
+// Layout rows are whitespace-separated cell tokens:
+//   .         random ball           #   hole (not part of the board)
+//   X         stone (never moves)   d   drop item, collected at the bottom
+//   r b y g p a fixed color, optionally followed by a powerup: + (moves),
+//             * (2x multiplier), ! (bomb), = (line), @ (blast), % (color
+//             convert) or ? (shuffle); w is rainbow and s is special
+//   ~         prefix for ice, one per layer: "~~." is a random ball frozen
+//             under two layers. Frozen balls don't fall and can't be chained;
+//             each chain popping next to them cracks one layer.
+//
+// Goals: { "type": "score", "score": 2000 } (points scored in this level),
+// { "type": "clearIce" } and { "type": "dropItems", "count": 3 }.
+//
+// "4-way" chains only step up, down, left and right. "hex" boards shift every
+// odd row half a cell to the right and connect each cell to its six neighbours.
+//
+// Powerups: "types" lists the ones that spawn on random balls (default moves,
+// multiplier and bomb; see powerups.ts), "chance" is the share of starting balls
+// that carry one (default 0.12) and "refillChance" the share of refill balls
+// (default 0). An empty "types" list turns random powerups off.
+//
+// On cascade levels, after every refill each group of 4+ same-color balls
+// touching orthogonally (6+ touching on hex boards) and each pair of adjacent
+// powerups pops by itself, for 2x points, then 3x for the next cascade, and so on.
+//
+// Star points are the level score plus 100 per move left; without "stars" the
+// thresholds default to 80 and 160 points per move the level starts with.
+
+import type { Adjacency, BallColor, PowerupRules, PowerupType, Targets } from './engine';
+import { POWERUPS, POWERUP_TYPES, powerupByToken } from './powerups';
+import { fromBase64Url, toBase64Url } from './base64';
+import campaign from '../levels/campaign.json';
+
+export type TileKind = 'open' | 'hole' | 'stone';
+
+export type LevelGoal =
+  | { type: 'score'; score: number }
+  | { type: 'clearIce' }
+  | { type: 'dropItems'; count: number };
+
+export interface CellSpec {
+  tile: TileKind;
+  ice: number;
+  // Omitted for a random ball.
+  ball?: { color: BallColor; powerup?: PowerupType };
+}
+
+export interface LevelConfig {
+  name?: string;
+  moves: number;
+  targets: Targets;
+  rows?: number;
+  cols?: number;
+  layout?: CellSpec[][];
+  adjacency?: Adjacency;
+  minMatch?: number;
+  powerups?: Partial<PowerupRules>;
+  cascade?: boolean;
+  goals?: LevelGoal[];
+  stars?: [number, number];
+}
+
+const MAX_SIZE = 12;
+const ADJACENCIES: Adjacency[] = ['4-way', '8-way', 'hex'];
+const MIN_MATCH_RANGE = [2, 6];
+
+const COLOR_TOKENS: Record<string, BallColor> = {
+  r: 'red',
+  b: 'blue',
+  y: 'yellow',
+  g: 'green',
+  p: 'purple',
+  w: 'rainbow',
+  s: 'special',
+  d: 'item',
+};
+
+const TARGET_COLORS = ['red', 'blue', 'yellow', 'green', 'purple'];
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// A JSON object whose fields haven't been checked yet.
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseCellToken = (token: string): CellSpec => {
+  const match = /^(~*)([.#Xrbygpwsd])(.?)$/.exec(token);
+  if (!match || (match[3] && !powerupByToken(match[3]))) throw new Error(`Unknown cell "${token}"`);
+  const [, ice, body, powerup] = match;
+
+  if (body === '#' || body === 'X') {
+    if (ice || powerup) throw new Error(`Holes and stones can't have ice or powerups ("${token}")`);
+    return { tile: body === '#' ? 'hole' : 'stone', ice: 0 };
+  }
+  if (body === 'd' && (ice || powerup)) throw new Error(`Drop items can't be frozen or carry powerups ("${token}")`);
+  if (body === '.' && powerup) throw new Error(`Random cells can't carry powerups ("${token}")`);
+
+  const spec: CellSpec = { tile: 'open', ice: ice.length };
+  if (body !== '.') {
+    spec.ball = { color: COLOR_TOKENS[body] };
+    if (powerup) spec.ball.powerup = powerupByToken(powerup);
+  }
+  return spec;
+};
+
+const parseGoal = (json: unknown): LevelGoal => {
+  const goal: Fields = isFields(json) ? json : {};
+  switch (goal.type) {
+    case 'score':
+      if (!isCount(goal.score)) throw new Error('Score goal needs a non-negative "score"');
+      return { type: 'score', score: goal.score };
+    case 'clearIce':
+      return { type: 'clearIce' };
+    case 'dropItems':
+      if (!isCount(goal.count) || goal.count === 0) throw new Error('Drop goal needs a positive "count"');
+      return { type: 'dropItems', count: goal.count };
+    default:
+      throw new Error(`Unknown goal type "${goal.type}"`);
+  }
+};
+
+const parsePowerups = (json: unknown): Partial<PowerupRules> => {
+  if (!isFields(json)) throw new Error('"powerups" must be an object');
+  const rules: Partial<PowerupRules> = {};
+  (['chance', 'refillChance'] as const).forEach((key) => {
+    const chance = json[key];
+    if (chance === undefined) return;
+    if (typeof chance !== 'number' || chance < 0 || chance > 1) throw new Error(`"powerups.${key}" must be between 0 and 1`);
+    rules[key] = chance;
+  });
+  const { types } = json;
+  if (types !== undefined) {
+    if (!Array.isArray(types)) throw new Error('"powerups.types" must be a list');
+    types.forEach((type: unknown) => {
+      if (!POWERUP_TYPES.includes(type as PowerupType)) throw new Error(`Unknown powerup "${type}"`);
+    });
+    if (new Set(types).size !== types.length) throw new Error('"powerups.types" lists a powerup twice');
+    rules.types = [...types];
+  }
+  return rules;
+};
+
+export const parseLevel = (json: unknown): LevelConfig => {
+  if (!isFields(json)) throw new Error('Level must be an object');
+  const level = json;
+  if (!isCount(level.moves) || level.moves === 0) throw new Error('"moves" must be a positive integer');
+  if (level.name !== undefined && typeof level.name !== 'string') throw new Error('"name" must be a string');
+
+  const targets: Targets = {};
+  Object.entries(isFields(level.targets) ? level.targets : {}).forEach(([color, count]) => {
+    if (!TARGET_COLORS.includes(color)) throw new Error(`Unknown target color "${color}"`);
+    if (!isCount(count)) throw new Error(`Target for ${color} must be a non-negative integer`);
+    targets[color as keyof Targets] = count;
+  });
+
+  const config: LevelConfig = { moves: level.moves, targets };
+  if (typeof level.name === 'string' && level.name) config.name = level.name;
+
+  if (level.layout !== undefined) {
+    if (!Array.isArray(level.layout) || level.layout.length === 0) throw new Error('"layout" must be a list of rows');
+    const layout = level.layout.map((row: unknown, r: number) => {
+      if (typeof row !== 'string') throw new Error(`Layout row ${r + 1} must be a string`);
+      return row.trim().split(/\s+/).map(parseCellToken);
+    });
+    if (layout.some((row: CellSpec[]) => row.length !== layout[0].length)) throw new Error('Layout rows must all have the same number of cells');
+    config.layout = layout;
+    config.rows = layout.length;
+    config.cols = layout[0].length;
+  } else {
+    if (level.rows !== undefined) config.rows = level.rows as number;
+    if (level.cols !== undefined) config.cols = level.cols as number;
+  }
+  [config.rows, config.cols].forEach((size) => {
+    if (size !== undefined && (!Number.isInteger(size) || size < 3 || size > MAX_SIZE)) {
+      throw new Error(`Board dimensions must be between 3 and ${MAX_SIZE}`);
+    }
+  });
+
+  if (level.adjacency !== undefined) {
+    const adjacency = level.adjacency as Adjacency;
+    if (!ADJACENCIES.includes(adjacency)) throw new Error(`"adjacency" must be one of ${ADJACENCIES.join(', ')}`);
+    config.adjacency = adjacency;
+  }
+  if (level.minMatch !== undefined) {
+    const [min, max] = MIN_MATCH_RANGE;
+    if (!isCount(level.minMatch) || level.minMatch < min || level.minMatch > max) {
+      throw new Error(`"minMatch" must be between ${min} and ${max}`);
+    }
+    config.minMatch = level.minMatch;
+  }
+
+  if (level.powerups !== undefined) config.powerups = parsePowerups(level.powerups);
+  if (level.cascade !== undefined) {
+    if (typeof level.cascade !== 'boolean') throw new Error('"cascade" must be true or false');
+    config.cascade = level.cascade;
+  }
+
+  if (level.goals !== undefined) {
+    if (!Array.isArray(level.goals)) throw new Error('"goals" must be a list');
+    config.goals = level.goals.map(parseGoal);
+  }
+
+  if (level.stars !== undefined) {
+    if (!Array.isArray(level.stars) || level.stars.length !== 2 || !level.stars.every(isCount) || level.stars[0] > level.stars[1]) {
+      throw new Error('"stars" must be two increasing point thresholds');
+    }
+    config.stars = [level.stars[0], level.stars[1]];
+  }
+
+  const items = config.layout?.flat().filter((cell) => cell.ball?.color === 'item').length ?? 0;
+  config.goals?.forEach((goal) => {
+    if (goal.type === 'dropItems' && goal.count > items) throw new Error(`Drop goal needs ${goal.count} items but the layout has ${items}`);
+    if (goal.type === 'clearIce' && !config.layout?.flat().some((cell) => cell.ice > 0)) throw new Error('Ice goal on a level without ice');
+  });
+
+  return config;
+};
+
+// The inverse of parseLevel: the authoring JSON for a config (editor export).
+export const formatCellToken = (spec: CellSpec): string => {
+  if (spec.tile === 'hole') return '#';
+  if (spec.tile === 'stone') return 'X';
+  const body = spec.ball ? Object.keys(COLOR_TOKENS).find((token) => COLOR_TOKENS[token] === spec.ball.color) : '.';
+  const powerup = spec.ball?.powerup ? POWERUPS[spec.ball.powerup].token : '';
+  return '~'.repeat(spec.ice) + body + powerup;
+};
+
+export const serializeLevel = (config: LevelConfig): object => {
+  const level: Record<string, unknown> = {};
+  if (config.name) level.name = config.name;
+  level.moves = config.moves;
+  level.targets = config.targets;
+  if (config.layout) {
+    level.layout = config.layout.map((row) => row.map(formatCellToken).join(' '));
+  } else {
+    if (config.rows !== undefined) level.rows = config.rows;
+    if (config.cols !== undefined) level.cols = config.cols;
+  }
+  if (config.adjacency) level.adjacency = config.adjacency;
+  if (config.minMatch !== undefined) level.minMatch = config.minMatch;
+  if (config.powerups && Object.keys(config.powerups).length > 0) level.powerups = config.powerups;
+  if (config.cascade) level.cascade = true;
+  if (config.goals?.length) level.goals = config.goals;
+  if (config.stars) level.stars = config.stars;
+  return level;
+};
+
+// Compact form for share links (?level=).
+export const encodeLevel = (config: LevelConfig): string => toBase64Url(JSON.stringify(serializeLevel(config)));
+
+export const decodeLevel = (text: string): LevelConfig => {
+  let json: unknown;
+  try {
+    json = JSON.parse(fromBase64Url(text.trim()));
+  } catch {
+    throw new Error('Level link is not valid base64 JSON');
+  }
+  return parseLevel(json);
+};
+
+export const parseLevels = (json: unknown): LevelConfig[] => {
+  if (!Array.isArray(json)) throw new Error('Level list must be an array');
+  return json.map((level, i) => {
+    try {
+      return parseLevel(level);
+    } catch (err) {
+      throw new Error(`Level ${i + 1}: ${(err as Error).message}`);
+    }
+  });
+};
+
+// The hand-authored levels, played in order before the procedural ones.
+export const LEVELS: LevelConfig[] = parseLevels(campaign);
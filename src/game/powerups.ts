@@ -0,0 +1,146 @@
+// The powerup registry. Each type declares how often it spawns, how the board
+// draws it and what it does when a chain pops it; the engine only walks these
+// declarations. Levels pick which types spawn and how often (see levels.ts).
+
+import type { Ball, BasicColor, Board, Cell, Grid } from './engine';
+import type { Rng } from './rng';
+
+export type PowerupType = 'moves' | 'multiplier' | 'bomb' | 'line' | 'blast' | 'convert' | 'shuffle';
+
+export type PowerupIcon = { text: string } | { path: string };
+
+export interface PowerupDef {
+  name: string;
+  // Layout and replay mark, written after the ball's color letter.
+  token: string;
+  // Relative odds among the level's powerup types.
+  weight: number;
+  icon: PowerupIcon;
+  moves?: number;
+  multiplierTurns?: number;
+  // Extra cells to pop with the chain. The engine drops anything that can't be
+  // chained (empty, frozen, stones, items), so effects can be generous.
+  clears?: (board: Board, at: Cell, chainColor: BasicColor | null) => Cell[];
+  // Rewrites the board once it has refilled. `free` lists the balls that could
+  // move: not frozen and not drop items.
+  afterRefill?: (grid: Grid, free: Cell[], chainColor: BasicColor | null, rng: Rng) => Grid;
+}
+
+export interface PowerupRules {
+  // Chance that a ball on the level's starting board carries a powerup.
+  chance: number;
+  // The same for balls that drop in to refill the board.
+  refillChance: number;
+  types: PowerupType[];
+}
+
+const CONVERT_COUNT = 5;
+const BLAST_RADIUS = 1;
+
+const boardCells = (grid: Grid, keep: (cell: Cell) => boolean): Cell[] =>
+  grid.flatMap((row, r) => row.map((_, c) => ({ r, c }))).filter(keep);
+
+const copyGrid = (grid: Grid): Grid => grid.map((row) => [...row]);
+
+export const POWERUPS: Record<PowerupType, PowerupDef> = {
+  moves: {
+    name: 'Extra moves',
+    token: '+',
+    weight: 33,
+    icon: { text: '+3' },
+    moves: 3,
+  },
+  multiplier: {
+    name: 'Double points',
+    token: '*',
+    weight: 33,
+    icon: { text: '2x' },
+    multiplierTurns: 3,
+  },
+  // Every ball on the board sharing the chain color.
+  bomb: {
+    name: 'Bomb',
+    token: '!',
+    weight: 34,
+    icon: { path: 'M11.25 2.25A.75.75 0 0 0 10.5 3v1.5a.75.75 0 0 0 1.5 0V3a.75.75 0 0 0-.75-.75ZM15.864 4.575a.75.75 0 0 0-1.06-1.06l-1.06 1.06a.75.75 0 0 0 1.06 1.06l1.06-1.06ZM7.076 5.635a.75.75 0 0 0 1.06-1.06l-1.06-1.06a.75.75 0 0 0-1.06 1.06l1.06 1.06ZM11.25 7.5a6.75 6.75 0 1 0 0 13.5 6.75 6.75 0 0 0 0-13.5ZM9 12.75a2.25 2.25 0 1 1 4.5 0 2.25 2.25 0 0 1-4.5 0Z' },
+    clears: ({ grid }, _, chainColor) =>
+      chainColor ? boardCells(grid, ({ r, c }) => grid[r][c]?.color === chainColor) : [],
+  },
+  // The whole row and column the ball sat in.
+  line: {
+    name: 'Line clear',
+    token: '=',
+    weight: 20,
+    icon: { path: 'M10 2h4v8h8v4h-8v8h-4v-8H2v-4h8Z' },
+    clears: ({ grid }, at) => boardCells(grid, ({ r, c }) => r === at.r || c === at.c),
+  },
+  // Everything around the ball.
+  blast: {
+    name: 'Blast',
+    token: '@',
+    weight: 20,
+    icon: { path: 'M12 1l2.4 6.2L21 5l-2.8 5.9L23 14l-6.4 1.1L17 22l-5-4.3L7 22l.4-6.9L1 14l4.8-3.1L3 5l6.6 2.2Z' },
+    clears: ({ grid }, at) =>
+      boardCells(grid, ({ r, c }) => Math.abs(r - at.r) <= BLAST_RADIUS && Math.abs(c - at.c) <= BLAST_RADIUS),
+  },
+  // Repaints a few random balls in the chain color (any color for a chain of wildcards).
+  convert: {
+    name: 'Color convert',
+    token: '%',
+    weight: 15,
+    icon: { path: 'M12 2C9 7 5.5 10.5 5.5 14.5a6.5 6.5 0 0 0 13 0C18.5 10.5 15 7 12 2Z' },
+    afterRefill: (grid, free, chainColor, rng) => {
+      const basic = free.filter(({ r, c }) => !['rainbow', 'special'].includes(grid[r][c]!.color));
+      if (basic.length === 0) return grid;
+      const color = chainColor ?? (grid[basic[0].r][basic[0].c]!.color as BasicColor);
+      const next = copyGrid(grid);
+      rng.shuffle(basic.filter(({ r, c }) => grid[r][c]!.color !== color))
+        .slice(0, CONVERT_COUNT)
+        .forEach(({ r, c }) => {
+          next[r][c] = { ...grid[r][c]!, color };
+        });
+      return next;
+    },
+  },
+  // Mixes up every ball that isn't frozen in place.
+  shuffle: {
+    name: 'Shuffle',
+    token: '?',
+    weight: 10,
+    icon: { path: 'M2 6h5l8 12h3v-3l4 4-4 4v-3h-4.1L5.9 8H2Zm0 10h3.9l1.8-2.7 1.2 1.8L7 18H2Zm14-10h2V3l4 4-4 4V8h-2l-1.8 2.7-1.2-1.8Z' },
+    afterRefill: (grid, free, _, rng) => {
+      const balls: Ball[] = rng.shuffle(free.map(({ r, c }) => grid[r][c]!));
+      const next = copyGrid(grid);
+      free.forEach(({ r, c }, i) => {
+        next[r][c] = balls[i];
+      });
+      return next;
+    },
+  },
+};
+
+export const POWERUP_TYPES = Object.keys(POWERUPS) as PowerupType[];
+
+// Starting boards have always rolled the first three; refills never spawn any.
+export const DEFAULT_POWERUP_RULES: PowerupRules = {
+  chance: 0.12,
+  refillChance: 0,
+  types: ['moves', 'multiplier', 'bomb'],
+};
+
+export const powerupByToken = (token: string): PowerupType | undefined =>
+  POWERUP_TYPES.find((type) => POWERUPS[type].token === token);
+
+// One draw for whether a ball gets a powerup and, if it does, one weighted pick.
+// A zero chance draws nothing, so boards without powerups use the same randoms.
+export const rollPowerup = (chance: number, types: PowerupType[], rng: Rng): PowerupType | undefined => {
+  if (chance <= 0 || types.length === 0 || rng.next() >= chance) return undefined;
+  const total = types.reduce((sum, type) => sum + POWERUPS[type].weight, 0);
+  const r = rng.next();
+  let cumulative = 0;
+  for (const type of types) {
+    cumulative += POWERUPS[type].weight;
+    if (r < cumulative / total) return type;
+  }
+  return types[types.length - 1];
+};
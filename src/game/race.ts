@@ -0,0 +1,73 @@
+// The multiplayer race protocol, shared by the room server (server/race.ts) and
+// the browser client (src/race.ts). Everyone in a room plays the same seeded
+// race level. Clients send their chains and the server re-plays each one, so
+// the progress every racer sees comes from the server's own simulation.
+
+import { GameStatus } from './engine';
+import { normalizeSeed } from './rng';
+
+export const RACE_PATH = '/race';
+export const RACE_MIN_PLAYERS = 2;
+export const RACE_MAX_PLAYERS = 8;
+export const RACE_COUNTDOWN_MS = 3000;
+// How long a dropped racer's place is held for them to reconnect.
+export const RACE_RECONNECT_MS = 30_000;
+export const ROOM_CODE_LENGTH = 4;
+export const MAX_RACER_NAME_LENGTH = 16;
+
+export type RoomPhase = 'lobby' | 'countdown' | 'racing' | 'finished';
+
+export interface RacerView {
+  id: string;
+  name: string;
+  ready: boolean;
+  connected: boolean;
+  score: number;
+  // Target balls still to collect, out of the room's targetsTotal.
+  targetsLeft: number;
+  movesLeft: number;
+  status: GameStatus;
+  // Milliseconds from the start of the race to clearing the level.
+  finishTime: number | null;
+}
+
+export interface RoomView {
+  code: string;
+  phase: RoomPhase;
+  seed: string;
+  targetsTotal: number;
+  // Milliseconds left before the race starts, as of when the view was sent.
+  countdown: number;
+  racers: RacerView[];
+}
+
+// `token` is private to each racer and lets a dropped connection take its
+// place back; `room` is left out to open a new room.
+export type ClientMessage =
+  | { type: 'join'; name: string; room?: string; token?: string }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'move'; chain: string }
+  | { type: 'rematch' }
+  | { type: 'leave' };
+
+// `chains` are the moves the racer has already made this race, so a client
+// that reconnects mid-race can rebuild its board from the seed.
+export type ServerMessage =
+  | { type: 'welcome'; room: string; you: string; token: string; chains: string[] }
+  | { type: 'room'; room: RoomView }
+  | { type: 'error'; message: string };
+
+export const normalizeRoomCode = (code: string): string => normalizeSeed(code);
+
+export const isRoomCode = (code: string): boolean => new RegExp(`^[A-Z0-9]{${ROOM_CODE_LENGTH}}$`).test(code);
+
+export const raceProgress = (racer: RacerView, targetsTotal: number): number =>
+  targetsTotal > 0 ? 1 - racer.targetsLeft / targetsTotal : 0;
+
+// Finishers in the order they cleared the level, then everyone else by the
+// fewest targets left and the best score.
+export const rankRacers = (racers: RacerView[]): RacerView[] =>
+  [...racers].sort((a, b) =>
+    (a.finishTime ?? Infinity) - (b.finishTime ?? Infinity) ||
+    a.targetsLeft - b.targetsLeft ||
+    b.score - a.score);
@@ -0,0 +1,212 @@
+// Session recording and playback. A replay stores the seed and every committed
+// chain, plus a compact snapshot of each level's starting board and of the board
+// after every refill. Playback re-simulates from the seed and uses the snapshots
+// to detect when the rules no longer reproduce the recorded game.
+
+import {
+  Ball,
+  BallColor,
+  Cell,
+  GameEvent,
+  GameMode,
+  GameState,
+  Grid,
+  CommitResult,
+  commitChain,
+  createGame,
+  isShortChain,
+  nextLevel,
+  releaseShortChain,
+} from './engine';
+import { POWERUPS } from './powerups';
+import { fromBase64Url, toBase64Url } from './base64';
+
+// v2 added the game mode; v1 replays are all campaign games. v3 changed how
+// many colors generated levels use, so v2 replays of those modes can't be played.
+export const REPLAY_VERSION = 3;
+
+const GENERATED_MODES: GameMode[] = ['endless', 'daily', 'race'];
+
+export interface ReplayMove {
+  chain: string;
+  board: string;
+}
+
+export interface ReplayLevel {
+  level: number;
+  board: string;
+  moves: ReplayMove[];
+}
+
+export interface Replay {
+  version: number;
+  seed: string;
+  mode: GameMode;
+  levels: ReplayLevel[];
+}
+
+export type ReplayStep =
+  | { type: 'level'; before: GameState; after: GameState }
+  | { type: 'move'; chain: Cell[]; before: GameState; after: GameState; events: GameEvent[] };
+
+export interface ReplayTimeline {
+  initial: GameState;
+  steps: ReplayStep[];
+  // Index of the first frame (0 = the initial board) that doesn't match the recording.
+  desyncAt: number | null;
+}
+
+const COLOR_CODES: Record<BallColor, string> = {
+  red: 'r',
+  blue: 'b',
+  yellow: 'y',
+  green: 'g',
+  purple: 'p',
+  rainbow: 'w',
+  special: 's',
+  item: 'd',
+};
+
+const encodeBall = (ball: Ball | null) => {
+  if (!ball) return '.';
+  return COLOR_CODES[ball.color] + (ball.powerup ? POWERUPS[ball.powerup].token : '');
+};
+
+// One token per cell (color letter + optional powerup mark), rows separated by '/'.
+export const encodeBoard = (grid: Grid): string =>
+  grid.map((row) => row.map(encodeBall).join('')).join('/');
+
+export const encodeChain = (chain: Cell[]): string =>
+  chain.map(({ r, c }) => r.toString(36) + c.toString(36)).join('');
+
+export const decodeChain = (chain: string): Cell[] => {
+  if (!/^([0-9a-z]{2})*$/.test(chain)) throw new Error(`Invalid replay chain "${chain}"`);
+  const cells: Cell[] = [];
+  for (let i = 0; i < chain.length; i += 2) {
+    cells.push({ r: parseInt(chain[i], 36), c: parseInt(chain[i + 1], 36) });
+  }
+  return cells;
+};
+
+export const startReplay = (state: GameState): Replay => ({
+  version: REPLAY_VERSION,
+  seed: state.seed,
+  mode: state.mode,
+  levels: [{ level: state.level, board: encodeBoard(state.grid), moves: [] }],
+});
+
+export const recordLevel = (replay: Replay, state: GameState): Replay => ({
+  ...replay,
+  levels: [...replay.levels, { level: state.level, board: encodeBoard(state.grid), moves: [] }],
+});
+
+export const recordMove = (replay: Replay, chain: Cell[], after: GameState): Replay => {
+  const levels = [...replay.levels];
+  const current = levels[levels.length - 1];
+  levels[levels.length - 1] = {
+    ...current,
+    moves: [...current.moves, { chain: encodeChain(chain), board: encodeBoard(after.grid) }],
+  };
+  return { ...replay, levels };
+};
+
+// Forgets the last recorded move, for when the player undoes it.
+export const undoMove = (replay: Replay): Replay => {
+  const levels = [...replay.levels];
+  const current = levels[levels.length - 1];
+  levels[levels.length - 1] = { ...current, moves: current.moves.slice(0, -1) };
+  return { ...replay, levels };
+};
+
+// Plays one recorded chain again. Short chains are recorded too, since
+// releasing one resets the combo.
+export const replayChain = (state: GameState, chain: Cell[]): CommitResult =>
+  isShortChain(state, chain) ? releaseShortChain(state) : commitChain(state, chain);
+
+// Counts every recorded chain, short releases included.
+export const countReplayMoves = (replay: Replay): number =>
+  replay.levels.reduce((total, level) => total + level.moves.length, 0);
+
+export const serializeReplay = (replay: Replay): string => toBase64Url(JSON.stringify(replay));
+
+// Time-attack replays hold the chains but not the clock: playback shows every
+// move, and the game ends where the recording does.
+const REPLAY_MODES: GameMode[] = ['campaign', 'endless', 'timeAttack', 'zen', 'daily', 'race'];
+
+// A parsed JSON object whose fields haven't been checked yet.
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+const isReplayMove = (move: unknown) => isFields(move) && typeof move.chain === 'string' && typeof move.board === 'string';
+
+const isReplayLevel = (level: unknown) =>
+  isFields(level) &&
+  typeof level.level === 'number' &&
+  typeof level.board === 'string' &&
+  Array.isArray(level.moves) &&
+  level.moves.every(isReplayMove);
+
+const isReplay = (value: unknown): value is Replay =>
+  isFields(value) &&
+  value.version === REPLAY_VERSION &&
+  typeof value.seed === 'string' &&
+  // Custom levels and versus setups aren't part of the replay, so they can't be re-simulated.
+  REPLAY_MODES.includes(value.mode as GameMode) &&
+  Array.isArray(value.levels) &&
+  value.levels.length > 0 &&
+  value.levels.every(isReplayLevel);
+
+export const parseReplay = (text: string): Replay => {
+  let value: unknown;
+  try {
+    value = JSON.parse(fromBase64Url(text.trim()));
+  } catch {
+    throw new Error('Replay is not valid base64 JSON');
+  }
+  if (isFields(value) && value.version === 1) value = { ...value, version: REPLAY_VERSION, mode: 'campaign' };
+  if (isFields(value) && value.version === 2) {
+    if (GENERATED_MODES.includes(value.mode as GameMode)) throw new Error('Replay was recorded with older level generation');
+    value = { ...value, version: REPLAY_VERSION };
+  }
+  if (!isReplay(value)) throw new Error('Unsupported or corrupted replay');
+  value.levels.forEach((level) => level.moves.forEach((move) => decodeChain(move.chain)));
+  return value;
+};
+
+// Starts the game a replay was recorded from (campaign games may start past level 1).
+export const createReplayGame = (replay: Replay): GameState => {
+  if (replay.mode === 'custom' || replay.mode === 'versus') throw new Error(`${replay.mode === 'custom' ? 'Custom level' : 'Versus'} replays cannot be re-simulated`);
+  return createGame(replay.seed, replay.mode, replay.levels[0].level);
+};
+
+export const buildTimeline = (replay: Replay): ReplayTimeline => {
+  let state = createReplayGame(replay);
+  const initial = state;
+  const steps: ReplayStep[] = [];
+  let desyncAt: number | null = null;
+  const check = (matches: boolean) => {
+    if (!matches && desyncAt === null) desyncAt = steps.length;
+  };
+
+  check(state.level === replay.levels[0].level && encodeBoard(state.grid) === replay.levels[0].board);
+
+  replay.levels.forEach((recorded, i) => {
+    if (i > 0) {
+      const before = state;
+      state = nextLevel(state);
+      steps.push({ type: 'level', before, after: state });
+      check(state.level === recorded.level && encodeBoard(state.grid) === recorded.board);
+    }
+    recorded.moves.forEach((move) => {
+      const chain = decodeChain(move.chain);
+      const before = state;
+      const { state: after, events } = replayChain(before, chain);
+      state = after;
+      steps.push({ type: 'move', chain, before, after, events });
+      check(events.length > 0 && encodeBoard(after.grid) === move.board);
+    });
+  });
+
+  return { initial, steps, desyncAt };
+};
@@ -0,0 +1,64 @@
+// Seedable PRNG (mulberry32). The generator's whole state is a single uint32,
+// so it can live inside GameState and be saved, replayed or sent to a server.
+
+export interface Rng {
+  next: () => number;
+  int: (max: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+  shuffle: <T>(items: readonly T[]) => T[];
+  readonly state: number;
+}
+
+export const createRng = (state: number): Rng => {
+  let a = state >>> 0;
+
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    pick: (items) => items[int(items.length)],
+    shuffle: (items) => {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    },
+    get state() {
+      return a;
+    },
+  };
+};
+
+// FNV-1a, so any string (including what people type into ?seed=) maps to a uint32.
+export const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// The one place allowed to use Math.random: picking a seed for a fresh game.
+export const randomSeed = (length: number = 6): string => {
+  let seed = '';
+  for (let i = 0; i < length; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
+
+export const normalizeSeed = (seed: string): string => seed.trim().toUpperCase();
@@ -0,0 +1,113 @@
+// Re-simulates a recorded session with the engine's rules so a server can check
+// what a client claims. Unlike buildTimeline (which is forgiving so the viewer
+// can show a desynced replay), any illegal or inconsistent step is rejected.
+
+import { GameState, isShortChain, isValidChain, nextLevel } from './engine';
+import { Replay, createReplayGame, decodeChain, encodeBoard, replayChain } from './replay';
+
+export interface LevelResult {
+  level: number;
+  startScore: number;
+  endScore: number;
+  movesLeft: number;
+  completed: boolean;
+}
+
+export interface SimulationResult {
+  final: GameState;
+  movesUsed: number;
+  levels: LevelResult[];
+}
+
+export interface RunClaim {
+  seed: string;
+  levelReached: number;
+  score: number;
+  movesUsed: number;
+}
+
+export interface LevelBestClaim {
+  level: number;
+  score: number;
+  movesLeft: number;
+}
+
+export interface VerificationResult {
+  ok: boolean;
+  reason?: string;
+  simulation?: SimulationResult;
+}
+
+export const simulateReplay = (replay: Replay): SimulationResult => {
+  let state = createReplayGame(replay);
+  let movesUsed = 0;
+  const levels: LevelResult[] = [];
+
+  replay.levels.forEach((recorded, i) => {
+    if (i > 0) {
+      if (state.status !== 'levelup') throw new Error(`Level ${recorded.level + 1} started before level ${state.level + 1} was complete`);
+      state = nextLevel(state);
+    }
+    if (recorded.level !== state.level) throw new Error(`Expected level ${state.level + 1}, replay has ${recorded.level + 1}`);
+    if (recorded.board !== encodeBoard(state.grid)) throw new Error(`Starting board of level ${state.level + 1} does not match the seed`);
+
+    const startScore = state.score;
+    recorded.moves.forEach((move, m) => {
+      const chain = decodeChain(move.chain);
+      const where = `level ${state.level + 1}, move ${m + 1}`;
+      if (state.status !== 'playing') throw new Error(`Move after the level ended (${where})`);
+      // A short chain only breaks the combo, so where it was drawn doesn't matter.
+      if (!isShortChain(state, chain) && !isValidChain(state, chain)) throw new Error(`Illegal chain (${where})`);
+      state = replayChain(state, chain).state;
+      movesUsed++;
+      if (move.board !== encodeBoard(state.grid)) throw new Error(`Board after refill does not match (${where})`);
+    });
+
+    levels.push({
+      level: state.level,
+      startScore,
+      endScore: state.score,
+      movesLeft: state.moves,
+      completed: state.status === 'levelup' || state.status === 'won',
+    });
+  });
+
+  return { final: state, movesUsed, levels };
+};
+
+const runSimulation = (replay: Replay, check: (simulation: SimulationResult) => string | null): VerificationResult => {
+  let simulation: SimulationResult;
+  try {
+    simulation = simulateReplay(replay);
+  } catch (err) {
+    return { ok: false, reason: (err as Error).message };
+  }
+  const reason = check(simulation);
+  return reason ? { ok: false, reason } : { ok: true, simulation };
+};
+
+// Only campaign and endless games are ranked: a replay can't prove how long a
+// time-attack game took, zen games have no end to compare, and daily results
+// are shared by the players themselves.
+export const verifyRun = (replay: Replay, claim: RunClaim): VerificationResult =>
+  runSimulation(replay, ({ final, movesUsed }) => {
+    if (replay.mode !== 'campaign' && replay.mode !== 'endless') return 'Only campaign and endless runs are ranked';
+    if (claim.seed !== replay.seed) return 'Seed does not match the replay';
+    if (claim.levelReached !== final.level + 1) return `Claimed level ${claim.levelReached}, replay reaches ${final.level + 1}`;
+    if (claim.score !== final.score) return `Claimed score ${claim.score}, replay scores ${final.score}`;
+    if (claim.movesUsed !== movesUsed) return `Claimed ${claim.movesUsed} moves, replay has ${movesUsed}`;
+    return null;
+  });
+
+// Level numbers in claims are 1-based, as shown to players. Bests are only kept
+// for campaign levels; endless levels differ from game to game.
+export const verifyLevelBest = (replay: Replay, claim: LevelBestClaim): VerificationResult =>
+  runSimulation(replay, ({ levels }) => {
+    if (replay.mode !== 'campaign') return 'Level bests are only kept for campaign levels';
+    const result = levels.find((l) => l.level === claim.level - 1);
+    if (!result || !result.completed) return `Replay does not complete level ${claim.level}`;
+    const score = result.endScore - result.startScore;
+    if (claim.score !== score) return `Claimed level score ${claim.score}, replay scores ${score}`;
+    if (claim.movesLeft !== result.movesLeft) return `Claimed ${claim.movesLeft} moves left, replay has ${result.movesLeft}`;
+    return null;
+  });
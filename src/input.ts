@@ -0,0 +1,133 @@
+// Keyboard and gamepad controls. Both map onto the same small set of actions;
+// App applies them to a focus cursor and the current chain, so neither input
+// needs pointer coordinates.
+
+import { Board, Cell } from './game/engine';
+
+export type InputAction =
+  | { type: 'move'; dr: number; dc: number }
+  // Start a chain at the cursor, extend it, or step back off the last cell.
+  | { type: 'select' }
+  | { type: 'commit' }
+  | { type: 'cancel' };
+
+const move = (dr: number, dc: number): InputAction => ({ type: 'move', dr, dc });
+
+// Arrows move straight; diagonals are on Q/E/Z/C and the numpad corners
+// (which report Home/PageUp/End/PageDown with Num Lock off).
+export const KEY_ACTIONS: Record<string, InputAction> = {
+  ArrowUp: move(-1, 0),
+  ArrowDown: move(1, 0),
+  ArrowLeft: move(0, -1),
+  ArrowRight: move(0, 1),
+  KeyW: move(-1, 0),
+  KeyS: move(1, 0),
+  KeyA: move(0, -1),
+  KeyD: move(0, 1),
+  KeyQ: move(-1, -1),
+  KeyE: move(-1, 1),
+  KeyZ: move(1, -1),
+  KeyC: move(1, 1),
+  Numpad8: move(-1, 0),
+  Numpad2: move(1, 0),
+  Numpad4: move(0, -1),
+  Numpad6: move(0, 1),
+  Numpad7: move(-1, -1),
+  Numpad9: move(-1, 1),
+  Numpad1: move(1, -1),
+  Numpad3: move(1, 1),
+  Home: move(-1, -1),
+  PageUp: move(-1, 1),
+  End: move(1, -1),
+  PageDown: move(1, 1),
+  Space: { type: 'select' },
+  Numpad5: { type: 'select' },
+  Enter: { type: 'commit' },
+  NumpadEnter: { type: 'commit' },
+  Escape: { type: 'cancel' },
+  Backspace: { type: 'cancel' },
+};
+
+const inBounds = ({ grid }: Board, { r, c }: Cell) =>
+  r >= 0 && r < grid.length && c >= 0 && c < grid[0].length;
+
+// Where the cursor sits before it has been moved: the current cursor if it is
+// still on this board, else the end of the chain, else the middle of the board.
+export const cursorStart = (board: Board, cursor: Cell | null, selection: Cell[]): Cell => {
+  if (cursor && inBounds(board, cursor)) return cursor;
+  if (selection.length > 0) return selection[selection.length - 1];
+  return { r: Math.floor(board.grid.length / 2), c: Math.floor(board.grid[0].length / 2) };
+};
+
+// Moves the cursor one cell, jumping over holes; stays put at the board edge.
+export const stepCursor = (board: Board, from: Cell, dr: number, dc: number): Cell => {
+  let next = { r: from.r + dr, c: from.c + dc };
+  while (inBounds(board, next)) {
+    if (board.tiles[next.r][next.c].kind !== 'hole') return next;
+    next = { r: next.r + dr, c: next.c + dc };
+  }
+  return from;
+};
+
+// Standard gamepad layout: A selects, B cancels, Y or the right trigger
+// commits, and the d-pad moves (press two directions for a diagonal).
+const GAMEPAD_BUTTONS: Record<number, InputAction> = {
+  0: { type: 'select' },
+  1: { type: 'cancel' },
+  3: { type: 'commit' },
+  7: { type: 'commit' },
+};
+const DPAD = { up: 12, down: 13, left: 14, right: 15 };
+
+const STICK_DEADZONE = 0.5;
+const REPEAT_DELAY_MS = 350;
+const REPEAT_INTERVAL_MS = 150;
+
+// Direction from the d-pad or left stick, or null when centered.
+const readDirection = (pad: Gamepad): { dr: number; dc: number } | null => {
+  const pressed = (index: number) => !!pad.buttons[index]?.pressed;
+  const [x = 0, y = 0] = pad.axes;
+  const dr = pressed(DPAD.up) || y < -STICK_DEADZONE ? -1 : pressed(DPAD.down) || y > STICK_DEADZONE ? 1 : 0;
+  const dc = pressed(DPAD.left) || x < -STICK_DEADZONE ? -1 : pressed(DPAD.right) || x > STICK_DEADZONE ? 1 : 0;
+  return dr || dc ? { dr, dc } : null;
+};
+
+// Polls connected gamepads every frame and reports button presses (once per
+// press) and held directions (with key-repeat timing). Returns a stop function.
+export const watchGamepads = (onAction: (action: InputAction) => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return () => {};
+  const held = new Map<number, Set<number>>();
+  const repeat = new Map<number, { key: string; next: number }>();
+  let frame = 0;
+
+  const poll = (now: number) => {
+    navigator.getGamepads().forEach((pad) => {
+      if (!pad) return;
+      const before = held.get(pad.index) ?? new Set<number>();
+      const pressed = new Set<number>();
+      pad.buttons.forEach((button, i) => {
+        if (!button.pressed) return;
+        pressed.add(i);
+        if (!before.has(i) && GAMEPAD_BUTTONS[i]) onAction(GAMEPAD_BUTTONS[i]);
+      });
+      held.set(pad.index, pressed);
+
+      const direction = readDirection(pad);
+      const key = direction ? `${direction.dr},${direction.dc}` : '';
+      const last = repeat.get(pad.index);
+      if (!direction) {
+        repeat.delete(pad.index);
+      } else if (!last || last.key !== key) {
+        onAction(move(direction.dr, direction.dc));
+        repeat.set(pad.index, { key, next: now + REPEAT_DELAY_MS });
+      } else if (now >= last.next) {
+        onAction(move(direction.dr, direction.dc));
+        last.next = now + REPEAT_INTERVAL_MS;
+      }
+    });
+    frame = requestAnimationFrame(poll);
+  };
+
+  frame = requestAnimationFrame(poll);
+  return () => cancelAnimationFrame(frame);
+};
@@ -0,0 +1,164 @@
+// Campaign progress: the best result on every completed level, kept in
+// localStorage separately from the in-progress save so starting a new game
+// never loses it.
+
+import { DailyResult, isDailyDate, previousDay } from './game/daily';
+import { LEVELS } from './game/levels';
+
+const PROGRESS_KEY = 'pop-match:progress';
+
+export interface LevelProgress {
+  stars: number;
+  bestScore: number;
+}
+
+// Indexed by 0-based campaign level; levels never completed are missing.
+export type Progress = Record<number, LevelProgress>;
+
+const isIntegerBetween = (value: unknown, min: number, max = Infinity) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isLevelProgress = (value: unknown): value is LevelProgress =>
+  typeof value === 'object' && value !== null &&
+  'stars' in value && isIntegerBetween(value.stars, 1, 3) &&
+  'bestScore' in value && isIntegerBetween(value.bestScore, 0);
+
+export const loadProgress = (): Progress => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? '{}');
+    const progress: Progress = {};
+    Object.entries(saved?.levels ?? {}).forEach(([level, entry]) => {
+      const index = Number(level);
+      if (Number.isInteger(index) && index >= 0 && index < LEVELS.length && isLevelProgress(entry)) progress[index] = entry;
+    });
+    return progress;
+  } catch {
+    return {};
+  }
+};
+
+// Keeps the best stars and score seen for the level and persists the result.
+export const recordLevelResult = (progress: Progress, level: number, stars: number, score: number): Progress => {
+  const previous = progress[level];
+  const next: Progress = {
+    ...progress,
+    [level]: {
+      stars: Math.max(stars, previous?.stars ?? 0),
+      bestScore: Math.max(score, previous?.bestScore ?? 0),
+    },
+  };
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify({ levels: next }));
+  } catch {
+    // Storage unavailable - progress only lasts for this session.
+  }
+  return next;
+};
+
+// The first level is always open; every other one opens once the previous is completed.
+export const isUnlocked = (progress: Progress, level: number): boolean => level === 0 || !!progress[level - 1];
+
+export const totalStars = (progress: Progress): number =>
+  Object.values(progress).reduce((total, entry) => total + entry.stars, 0);
+
+// Modes played for score alone keep one best score each, under their own key.
+const MODE_BESTS_KEY = 'pop-match:mode-bests';
+
+export type ScoreMode = 'endless' | 'timeAttack' | 'zen';
+
+export type ModeBests = Partial<Record<ScoreMode, number>>;
+
+const SCORE_MODES: ScoreMode[] = ['endless', 'timeAttack', 'zen'];
+
+export const isScoreMode = (mode: string): mode is ScoreMode => SCORE_MODES.includes(mode as ScoreMode);
+
+export const loadModeBests = (): ModeBests => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MODE_BESTS_KEY) ?? '{}');
+    const bests: ModeBests = {};
+    SCORE_MODES.forEach((mode) => {
+      if (Number.isInteger(saved?.[mode]) && saved[mode] >= 0) bests[mode] = saved[mode];
+    });
+    return bests;
+  } catch {
+    return {};
+  }
+};
+
+export const recordModeScore = (bests: ModeBests, mode: ScoreMode, score: number): ModeBests => {
+  if (score <= (bests[mode] ?? 0)) return bests;
+  const next = { ...bests, [mode]: score };
+  try {
+    localStorage.setItem(MODE_BESTS_KEY, JSON.stringify(next));
+  } catch {
+    // Storage unavailable - the best only lasts for this session.
+  }
+  return next;
+};
+
+// The daily challenge allows one scored attempt a day. Starting it uses up the
+// day and extends the streak of consecutive days played; the result is kept
+// once the attempt ends, so it can still be shared later that day.
+const DAILY_KEY = 'pop-match:daily';
+
+export interface DailyRecord {
+  // The last day a daily challenge was started.
+  date: string | null;
+  result: DailyResult | null;
+  streak: number;
+  bestStreak: number;
+}
+
+const NO_DAILY: DailyRecord = { date: null, result: null, streak: 0, bestStreak: 0 };
+
+const isDailyResult = (value: unknown, date: string | null): value is DailyResult =>
+  typeof value === 'object' && value !== null &&
+  'date' in value && value.date === date &&
+  'won' in value && typeof value.won === 'boolean' &&
+  'score' in value && isIntegerBetween(value.score, 0) &&
+  'stars' in value && isIntegerBetween(value.stars, 0, 3) &&
+  'chains' in value && Array.isArray(value.chains) && value.chains.every((length: unknown) => isIntegerBetween(length, 1));
+
+const writeDaily = (record: DailyRecord) => {
+  try {
+    localStorage.setItem(DAILY_KEY, JSON.stringify(record));
+  } catch {
+    // Storage unavailable - the attempt and streak only last for this session.
+  }
+};
+
+export const loadDaily = (): DailyRecord => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DAILY_KEY) ?? 'null');
+    if (!isDailyDate(saved?.date) || !Number.isInteger(saved.streak) || !Number.isInteger(saved.bestStreak)) return NO_DAILY;
+    return {
+      date: saved.date,
+      result: isDailyResult(saved.result, saved.date) ? saved.result : null,
+      streak: Math.max(1, saved.streak),
+      bestStreak: Math.max(saved.streak, saved.bestStreak),
+    };
+  } catch {
+    return NO_DAILY;
+  }
+};
+
+export const hasPlayedDaily = (record: DailyRecord, date: string): boolean => record.date === date;
+
+// A streak survives until a whole day passes without playing.
+export const dailyStreak = (record: DailyRecord, today: string): number =>
+  record.date === today || (record.date !== null && record.date === previousDay(today)) ? record.streak : 0;
+
+export const recordDailyStart = (record: DailyRecord, date: string): DailyRecord => {
+  if (hasPlayedDaily(record, date)) return record;
+  const streak = record.date !== null && record.date === previousDay(date) ? record.streak + 1 : 1;
+  const next = { date, result: null, streak, bestStreak: Math.max(streak, record.bestStreak) };
+  writeDaily(next);
+  return next;
+};
+
+export const recordDailyResult = (record: DailyRecord, result: DailyResult): DailyRecord => {
+  if (record.date !== result.date || record.result) return record;
+  const next = { ...record, result };
+  writeDaily(next);
+  return next;
+};
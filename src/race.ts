@@ -0,0 +1,124 @@
+// Browser side of the multiplayer race (protocol in game/race.ts). The socket
+// reconnects on its own after a drop and takes the racer's place back with the
+// token from the last welcome. That token is kept in sessionStorage, so every
+// tab races as its own player and a reload can rejoin.
+
+import { GameState, createGame } from './game/engine';
+import { ClientMessage, RACE_PATH, ServerMessage } from './game/race';
+import { Replay, decodeChain, recordMove, replayChain, startReplay } from './game/replay';
+
+export type RaceStatus = 'connecting' | 'connected' | 'closed';
+
+export interface RaceSession {
+  room: string;
+  token: string;
+}
+
+export interface RaceHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: RaceStatus) => void;
+}
+
+export interface RaceConnection {
+  send: (message: ClientMessage) => void;
+  // Leaves the room for good; a dropped socket only reconnects.
+  close: () => void;
+}
+
+const sendTo = (ws: WebSocket, message: ClientMessage) => ws.send(JSON.stringify(message));
+
+const RACE_SESSION_KEY = 'pop-match:race';
+const RECONNECT_DELAY_MS = 2000;
+
+export const loadRaceSession = (): RaceSession | null => {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(RACE_SESSION_KEY) ?? 'null');
+    return typeof session?.room === 'string' && typeof session?.token === 'string' ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveRaceSession = (session: RaceSession | null) => {
+  try {
+    if (session) sessionStorage.setItem(RACE_SESSION_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(RACE_SESSION_KEY);
+  } catch {
+    // Without storage a reload just can't rejoin.
+  }
+};
+
+// `room` left out opens a new room. Joining the room of the stored session
+// takes that racer's place back.
+export const connectRace = (name: string, room: string | undefined, handlers: RaceHandlers): RaceConnection => {
+  let socket: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const end = () => {
+    closed = true;
+    if (retry) clearTimeout(retry);
+    saveRaceSession(null);
+    socket?.close();
+    handlers.onStatus('closed');
+  };
+
+  const open = () => {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}${RACE_PATH}`);
+    let joined = false;
+    socket = ws;
+    handlers.onStatus('connecting');
+
+    ws.onopen = () => {
+      const session = loadRaceSession();
+      const token = session && session.room === room ? session.token : undefined;
+      sendTo(ws, { type: 'join', name, room, token });
+    };
+    ws.onmessage = (event) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'welcome') {
+        joined = true;
+        room = message.room;
+        saveRaceSession({ room: message.room, token: message.token });
+        handlers.onStatus('connected');
+      }
+      handlers.onMessage(message);
+      // A join the server turned down won't work on a retry either.
+      if (message.type === 'error' && !joined) end();
+    };
+    ws.onclose = () => {
+      if (closed || socket !== ws) return;
+      handlers.onStatus('connecting');
+      retry = setTimeout(open, RECONNECT_DELAY_MS);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) sendTo(socket, message);
+    },
+    close: () => {
+      if (closed) return;
+      if (socket?.readyState === WebSocket.OPEN) sendTo(socket, { type: 'leave' });
+      end();
+    },
+  };
+};
+
+// The board a racer has after the chains the server has from them, e.g. after a reconnect.
+export const rebuildRace = (seed: string, chains: string[]): { game: GameState; recording: Replay } => {
+  const initial = createGame(seed, 'race');
+  return chains.reduce(({ game, recording }, encoded) => {
+    const chain = decodeChain(encoded);
+    const { state } = replayChain(game, chain);
+    return { game: state, recording: recordMove(recording, chain, state) };
+  }, { game: initial, recording: startReplay(initial) });
+};
@@ -0,0 +1,226 @@
+// Persists the in-progress game to localStorage. Anything that doesn't parse
+// or validate is thrown away, so a bad save can never break the render.
+
+import { Adjacency, BallColor, BASIC_COLORS, DEFAULT_RULES, GameMode, GameState, GameStatus, TileKind, starThresholds } from './game/engine';
+import { LEVELS, LevelGoal } from './game/levels';
+import { DEFAULT_POWERUP_RULES, POWERUP_TYPES } from './game/powerups';
+import { Replay, parseReplay, serializeReplay } from './game/replay';
+
+const SAVE_KEY = 'pop-match:save';
+
+// Bump when the stored shape changes, and add a migration from the old version.
+export const SAVE_VERSION = 9;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  game: GameState;
+  replay: string;
+  // Whether autoplay made any of the moves, which keeps the game off the leaderboards.
+  botAssisted: boolean;
+}
+
+export interface LoadedGame {
+  game: GameState;
+  recording: Replay;
+  savedAt: number;
+  botAssisted: boolean;
+}
+
+// A parsed JSON object whose fields haven't been checked yet.
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => typeof value === 'object' && value !== null;
+
+// Anything that isn't an object migrates as an empty one and fails validation afterwards.
+const fieldsOf = (value: unknown): Fields => (isFields(value) ? value : {});
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1.
+const MIGRATIONS: Record<number, (save: Fields) => Fields> = {
+  // v2: boards gained tiles (holes, stones, ice) and levels gained goals.
+  1: ({ levelStartScore, ...save }) => {
+    const game = fieldsOf(save.game);
+    return {
+      ...save,
+      version: 2,
+      game: {
+        ...game,
+        tiles: Array.isArray(game.grid) ? game.grid.map((row: unknown[]) => row.map(() => ({ kind: 'open', ice: 0 }))) : undefined,
+        levelStartScore,
+        goals: [],
+        itemsCollected: 0,
+      },
+    };
+  },
+  // v3: the campaign became finite and levels gained star thresholds. Older
+  // games already past the hand-authored levels carry on in endless mode.
+  2: (save) => {
+    const game = fieldsOf(save.game);
+    const config = isCount(game.level) ? LEVELS[game.level] : undefined;
+    return {
+      ...save,
+      version: 3,
+      game: {
+        ...game,
+        mode: config ? 'campaign' : 'endless',
+        starScores: starThresholds(config ?? { moves: typeof game.moves === 'number' ? game.moves : 0, targets: {} }),
+      },
+    };
+  },
+  // v4: levels can change the adjacency rule and minimum chain; older games use the defaults.
+  3: (save) => ({ ...save, version: 4, game: { ...fieldsOf(save.game), rules: DEFAULT_RULES } }),
+  // v5: levels choose which powerups spawn and whether refills carry them.
+  4: (save) => {
+    const game = fieldsOf(save.game);
+    return { ...save, version: 5, game: { ...game, rules: { ...fieldsOf(game.rules), powerups: DEFAULT_POWERUP_RULES } } };
+  },
+  // v6: levels can turn on cascades.
+  5: (save) => {
+    const game = fieldsOf(save.game);
+    return { ...save, version: 6, game: { ...game, rules: { ...fieldsOf(game.rules), cascade: false } } };
+  },
+  // v7: time attack added a clock to the state; saved games never ran one.
+  6: (save) => ({ ...save, version: 7, game: { ...fieldsOf(save.game), timeLeft: 0 } }),
+  // v8: versus added players and turns to the state; saved games are single-player.
+  7: (save) => ({ ...save, version: 8, game: { ...fieldsOf(save.game), players: [], turn: 0 } }),
+  // v9: saves record whether autoplay helped. Older saves didn't keep track, so they count as unassisted.
+  8: (save) => ({ ...save, version: 9, botAssisted: false }),
+};
+
+const BALL_COLORS: BallColor[] = [...BASIC_COLORS, 'rainbow', 'special', 'item'];
+const TILE_KINDS: TileKind[] = ['open', 'hole', 'stone'];
+const GOAL_TYPES: LevelGoal['type'][] = ['score', 'clearIce', 'dropItems'];
+const STATUSES: GameStatus[] = ['playing', 'levelup', 'won', 'lost'];
+// Custom (editor) games are never saved, and neither are time-attack games
+// (the clock keeps running only while the game is on screen) or versus games.
+const MODES: GameMode[] = ['campaign', 'endless', 'zen', 'daily'];
+const ADJACENCIES: Adjacency[] = ['4-way', '8-way', 'hex'];
+
+const isOneOf = <T,>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const isChance = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isBall = (ball: unknown) =>
+  ball === null ||
+  (isFields(ball) &&
+    typeof ball.id === 'string' &&
+    isOneOf(BALL_COLORS, ball.color) &&
+    (ball.powerup === undefined || isOneOf(POWERUP_TYPES, ball.powerup)));
+
+const isTile = (tile: unknown) => isFields(tile) && isOneOf(TILE_KINDS, tile.kind) && isCount(tile.ice);
+
+// Rows of the given width whose cells all pass the check.
+const isBoard = (rows: unknown, width: number, isCell: (cell: unknown) => boolean) =>
+  Array.isArray(rows) &&
+  rows.length > 0 &&
+  rows.every((row) => Array.isArray(row) && row.length === width && row.every(isCell));
+
+const isPowerupRules = (powerups: unknown) =>
+  isFields(powerups) &&
+  isChance(powerups.chance) &&
+  isChance(powerups.refillChance) &&
+  Array.isArray(powerups.types) &&
+  powerups.types.every((type) => isOneOf(POWERUP_TYPES, type));
+
+const isRules = (rules: unknown) =>
+  isFields(rules) &&
+  isOneOf(ADJACENCIES, rules.adjacency) &&
+  isCount(rules.minMatch) &&
+  rules.minMatch >= 2 &&
+  isPowerupRules(rules.powerups) &&
+  typeof rules.cascade === 'boolean';
+
+const isGameState = (game: unknown): game is GameState =>
+  isFields(game) &&
+  typeof game.seed === 'string' &&
+  isCount(game.rngState) &&
+  isOneOf(MODES, game.mode) &&
+  isCount(game.level) &&
+  (game.mode !== 'campaign' || game.level < LEVELS.length) &&
+  Array.isArray(game.starScores) &&
+  game.starScores.length === 2 &&
+  game.starScores.every(isCount) &&
+  isRules(game.rules) &&
+  isCount(game.score) &&
+  isCount(game.levelStartScore) &&
+  isCount(game.itemsCollected) &&
+  typeof game.timeLeft === 'number' &&
+  game.timeLeft >= 0 &&
+  Array.isArray(game.players) &&
+  game.players.length === 0 &&
+  game.turn === 0 &&
+  Array.isArray(game.goals) &&
+  game.goals.every((goal) => isFields(goal) && isOneOf(GOAL_TYPES, goal.type)) &&
+  Number.isInteger(game.moves) &&
+  isCount(game.multiplierTurns) &&
+  isCount(game.combo) &&
+  typeof game.comboMeter === 'number' &&
+  isOneOf(STATUSES, game.status) &&
+  isFields(game.targets) &&
+  Object.entries(game.targets).every(([color, count]) => isOneOf(BASIC_COLORS, color) && isCount(count)) &&
+  Array.isArray(game.grid) &&
+  Array.isArray(game.grid[0]) &&
+  isBoard(game.grid, game.grid[0].length, isBall) &&
+  Array.isArray(game.tiles) &&
+  game.tiles.length === game.grid.length &&
+  isBoard(game.tiles, game.grid[0].length, isTile);
+
+// Every migration moves the save up exactly one version.
+const migrate = (save: Fields, version: number): Fields => {
+  let current = save;
+  for (let from = version; from < SAVE_VERSION; from++) {
+    const step = MIGRATIONS[from];
+    if (!step) throw new Error(`No migration from save version ${from}`);
+    current = step(current);
+  }
+  return current;
+};
+
+export const clearSave = () => {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch {
+    // Storage unavailable - nothing to clear.
+  }
+};
+
+export const writeSave = (game: GameState, recording: Replay, botAssisted: boolean) => {
+  const save: SavedGame = {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    game,
+    replay: serializeReplay(recording),
+    botAssisted,
+  };
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Quota exceeded or private mode - the game simply won't be resumable.
+  }
+};
+
+export const loadSave = (): LoadedGame | null => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(SAVE_KEY);
+  } catch {
+    return null;
+  }
+  if (!raw) return null;
+
+  try {
+    const save: unknown = JSON.parse(raw);
+    if (!isFields(save) || !isCount(save.version) || save.version > SAVE_VERSION) throw new Error('Unsupported save version');
+    const { game, replay, savedAt, botAssisted } = migrate(save, save.version);
+    if (!isGameState(game) || typeof replay !== 'string' || typeof savedAt !== 'number' || typeof botAssisted !== 'boolean') {
+      throw new Error('Malformed save');
+    }
+    return { game, recording: parseReplay(replay), savedAt, botAssisted };
+  } catch (err) {
+    console.warn('Discarding saved game:', err);
+    clearSave();
+    return null;
+  }
+};
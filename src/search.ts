@@ -0,0 +1,57 @@
+// Hints and the autoplay bot rate every chain on the board, which can take
+// well over a frame on big boards with powerups, so they run in a worker
+// (searchWorker.ts) and hand their chain back asynchronously.
+
+import { BotName } from './game/bots';
+import { Cell, GameState } from './game/engine';
+import { Rng, createRng } from './game/rng';
+
+// `bot` null asks for the hint search.
+export interface SearchRequest {
+  id: number;
+  state: GameState;
+  bot: BotName | null;
+  rngState: number;
+}
+
+export interface SearchResponse {
+  id: number;
+  chain: Cell[] | null;
+  rngState: number;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (response: SearchResponse) => void; reject: (err: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data }: MessageEvent<SearchResponse>) => {
+    pending.get(data.id)?.resolve(data);
+    pending.delete(data.id);
+  };
+  // A worker that fails to load or crashes is started again on the next search.
+  worker.onerror = (event) => {
+    event.preventDefault();
+    pending.forEach(({ reject }) => reject(new Error(event.message || 'Chain search failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const search = (state: GameState, bot: BotName | null, rngState: number): Promise<SearchResponse> =>
+  new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, state, bot, rngState } as SearchRequest);
+  });
+
+export const searchHint = (state: GameState): Promise<Cell[] | null> =>
+  search(state, null, 0).then(({ chain }) => chain);
+
+// Resolves with the bot's chain and its rng moved on past the draws it made.
+export const searchBotMove = (state: GameState, bot: BotName, rng: Rng): Promise<{ chain: Cell[] | null; rng: Rng }> =>
+  search(state, bot, rng.state).then(({ chain, rngState }) => ({ chain, rng: createRng(rngState) }));
@@ -0,0 +1,13 @@
+// The worker side of search.ts: one chain search per message.
+
+import { BOTS } from './game/bots';
+import { findBestChain } from './game/hints';
+import { createRng } from './game/rng';
+import { SearchRequest, SearchResponse } from './search';
+
+self.onmessage = ({ data }: MessageEvent<SearchRequest>) => {
+  const rng = createRng(data.rngState);
+  const chain = data.bot ? BOTS[data.bot](data.state, rng) : findBestChain(data.state);
+  const response: SearchResponse = { id: data.id, chain, rngState: rng.state };
+  self.postMessage(response);
+};
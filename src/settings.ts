@@ -0,0 +1,89 @@
+// Player preferences, kept in localStorage. Unknown or invalid fields fall back
+// to the defaults so an older or hand-edited entry never breaks the game.
+
+import { PALETTES, PaletteName } from './theme';
+
+const SETTINGS_KEY = 'pop-match:settings';
+
+// 'system' follows the OS prefers-reduced-motion setting.
+export type MotionSetting = 'system' | 'reduced' | 'full';
+
+export interface Settings {
+  palette: PaletteName;
+  // Draw a per-color shape on balls and target icons.
+  glyphs: boolean;
+  // Volumes are 0-1; the effects and music buses are both scaled by the master volume.
+  masterVolume: number;
+  sfxVolume: number;
+  musicVolume: number;
+  muted: boolean;
+  haptics: boolean;
+  motion: MotionSetting;
+  // Random comic words on pops; informative popups like "+3 MOVES" always show.
+  comicWords: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  palette: 'classic',
+  glyphs: false,
+  masterVolume: 1,
+  sfxVolume: 1,
+  musicVolume: 0.6,
+  muted: false,
+  haptics: true,
+  motion: 'system',
+  comicWords: true,
+};
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isVolume = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+const FIELD_CHECKS: Record<keyof Settings, (value: unknown) => boolean> = {
+  palette: (value) => typeof value === 'string' && Object.hasOwn(PALETTES, value),
+  glyphs: isBoolean,
+  masterVolume: isVolume,
+  sfxVolume: isVolume,
+  musicVolume: isVolume,
+  muted: isBoolean,
+  haptics: isBoolean,
+  motion: (value) => value === 'system' || value === 'reduced' || value === 'full',
+  comicWords: isBoolean,
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    const saved: Partial<Record<keyof Settings, unknown>> = typeof parsed === 'object' && parsed !== null ? parsed : {};
+    const settings: Settings = { ...DEFAULT_SETTINGS };
+    // Each field has just passed its own check, so any of them can be copied over.
+    const fields: Record<keyof Settings, unknown> = settings;
+    (Object.keys(FIELD_CHECKS) as (keyof Settings)[]).forEach((key) => {
+      if (FIELD_CHECKS[key](saved[key])) fields[key] = saved[key];
+    });
+    return settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable - settings only last for this session.
+  }
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const systemPrefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+// Calls onChange whenever the OS setting flips. Returns a stop function.
+export const watchReducedMotion = (onChange: (reduced: boolean) => void): (() => void) => {
+  if (typeof window === 'undefined' || !window.matchMedia) return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const listener = (e: MediaQueryListEvent) => onChange(e.matches);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
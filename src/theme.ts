@@ -0,0 +1,73 @@
+import { BallColor, BasicColor } from './game/engine';
+
+export type PaletteName = 'classic' | 'colorblind' | 'contrast';
+
+// Ball fills per palette. Only the five basic colors change; rainbow, special
+// and item balls already have their own shapes and markings.
+export interface Palette {
+  label: string;
+  colors: Record<BasicColor, string>;
+}
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  classic: {
+    label: 'Classic',
+    colors: {
+      red: 'bg-[#ff3366]',
+      blue: 'bg-[#33ccff]',
+      yellow: 'bg-[#ffcc00]',
+      green: 'bg-[#33ff33]',
+      purple: 'bg-[#cc33ff]',
+    },
+  },
+  // Okabe-Ito colors, distinguishable with deuteranopia, protanopia and tritanopia.
+  colorblind: {
+    label: 'Color-blind',
+    colors: {
+      red: 'bg-[#d55e00]',
+      blue: 'bg-[#0072b2]',
+      yellow: 'bg-[#f0e442]',
+      green: 'bg-[#009e73]',
+      purple: 'bg-[#cc79a7]',
+    },
+  },
+  // Strongly separated lightness, readable in grayscale.
+  contrast: {
+    label: 'High contrast',
+    colors: {
+      red: 'bg-[#b00020]',
+      blue: 'bg-[#1a1aff]',
+      yellow: 'bg-[#ffff00]',
+      green: 'bg-[#66ffcc]',
+      purple: 'bg-[#4b0066]',
+    },
+  },
+};
+
+export const PALETTE_ORDER: PaletteName[] = ['classic', 'colorblind', 'contrast'];
+
+const SHARED_CLASSES = {
+  rainbow: 'bg-gradient-to-tr from-red-500 via-green-500 to-blue-500',
+  special: 'bg-gradient-to-b from-yellow-200 via-yellow-400 to-yellow-600 border-yellow-700',
+  item: 'bg-gradient-to-b from-amber-500 to-amber-800',
+};
+
+export const colorClasses = (palette: PaletteName): Record<BallColor, string> => ({
+  ...PALETTES[palette].colors,
+  ...SHARED_CLASSES,
+});
+
+// Spoken color names for announcements.
+export const COLOR_NAMES: Record<BallColor, string> = {
+  red: 'red',
+  blue: 'blue',
+  yellow: 'yellow',
+  green: 'green',
+  purple: 'purple',
+  rainbow: 'rainbow',
+  special: 'star',
+  item: 'drop item',
+};
+
+// Versus players are told apart by these colors on the turn banner and scoreboard.
+export const PLAYER_COLORS = ['#ff3366', '#33ccff', '#ffcc00', '#33ff33'];